@@ -1,26 +1,59 @@
-import React, { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { IPv6Parser } from './utils/ipv6Parser';
-import { IPv6Address } from './types/ipv6';
+import { IPv6Address, ParseOptions, BitFieldTemplate } from './types/ipv6';
+import { BitFieldTemplates } from './utils/bitFieldTemplate';
 import { AddressInput } from './components/AddressInput';
 import { AddressDetails } from './components/AddressDetails';
 import { SubnettingTool } from './components/SubnettingTool';
+import { AllocationPlanner } from './components/AllocationPlanner';
+import { IPAMManager } from './components/IPAMManager';
 import { BatchProcessor } from './components/BatchProcessor';
-import { Network, Calculator, List } from 'lucide-react';
+import { RouteSummarizer } from './components/RouteSummarizer';
+import { RangeConverter } from './components/RangeConverter';
+import { PrefixSetCalculator } from './components/PrefixSetCalculator';
+import { TransitionTools } from './components/TransitionTools';
+import { InterfaceIdTools } from './components/InterfaceIdTools';
+import { PrivacyAddressGenerator } from './components/PrivacyAddressGenerator';
+import { ULAPrefixGenerator } from './components/ULAPrefixGenerator';
+import { TemplateDesigner } from './components/TemplateDesigner';
+import { Network, Calculator, List, Layers, Combine, Router, Sparkles, LayoutGrid, FolderTree, Ruler } from 'lucide-react';
 
 function App() {
+  const [input, setInput] = useState('2001:db8::/32');
+  const [parseOptions, setParseOptions] = useState<ParseOptions>({});
   const [currentAddress, setCurrentAddress] = useState<IPv6Address>(() => 
-    IPv6Parser.parse('2001:db8::/32')
+    IPv6Parser.parseAny('2001:db8::/32')
   );
-  const [activeTab, setActiveTab] = useState<'calculator' | 'subnetting' | 'batch'>('calculator');
+  const [template, setTemplate] = useState<BitFieldTemplate>(() => BitFieldTemplates.load());
+  const [templateSaveError, setTemplateSaveError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'calculator' | 'subnetting' | 'planner' | 'ipam' | 'template' | 'summarize' | 'sets' | 'transition' | 'generators' | 'batch'>('calculator');
 
-  const handleAddressChange = useCallback((input: string) => {
-    const parsed = IPv6Parser.parse(input);
+  const handleAddressChange = useCallback((input: string, options: ParseOptions) => {
+    const parsed = IPv6Parser.parseAny(input, options);
+    setInput(input);
+    setParseOptions(options);
     setCurrentAddress(parsed);
   }, []);
 
+  useEffect(() => {
+    setTemplateSaveError(BitFieldTemplates.save(template));
+  }, [template]);
+
+  const handleUseInSubnetting = (prefix: string) => {
+    handleAddressChange(prefix, parseOptions);
+    setActiveTab('subnetting');
+  };
+
   const tabs = [
     { id: 'calculator' as const, label: 'Calculator', icon: Calculator },
     { id: 'subnetting' as const, label: 'Subnetting', icon: Network },
+    { id: 'planner' as const, label: 'Planner', icon: LayoutGrid },
+    { id: 'ipam' as const, label: 'IPAM', icon: FolderTree },
+    { id: 'template' as const, label: 'Template', icon: Ruler },
+    { id: 'summarize' as const, label: 'Summarize', icon: Layers },
+    { id: 'sets' as const, label: 'Prefix Sets', icon: Combine },
+    { id: 'transition' as const, label: 'Transition', icon: Router },
+    { id: 'generators' as const, label: 'Generators', icon: Sparkles },
     { id: 'batch' as const, label: 'Batch', icon: List }
   ];
 
@@ -58,14 +91,18 @@ function App() {
         <div className="space-y-8">
           {/* Input Section */}
           <AddressInput
+            value={input}
             onAddressChange={handleAddressChange}
             isValid={currentAddress.isValid}
             error={currentAddress.error}
+            inputFormat={currentAddress.inputFormat}
+            hasHostBitsSet={currentAddress.hasHostBitsSet}
+            networkAddress={currentAddress.isValid ? IPv6Parser.getNetworkInput(currentAddress) : undefined}
           />
 
           {/* Tab Navigation */}
           <div className="border-b border-gray-700">
-            <nav className="flex space-x-8">
+            <nav className="flex space-x-8 overflow-x-auto">
               {tabs.map((tab) => {
                 const Icon = tab.icon;
                 return (
@@ -89,13 +126,53 @@ function App() {
           {/* Tab Content */}
           <div className="space-y-6">
             {activeTab === 'calculator' && (
-              <AddressDetails address={currentAddress} />
+              <AddressDetails address={currentAddress} template={template} />
             )}
             
             {activeTab === 'subnetting' && (
               <SubnettingTool address={currentAddress} />
             )}
             
+            {activeTab === 'planner' && (
+              <AllocationPlanner address={currentAddress} />
+            )}
+            
+            {activeTab === 'ipam' && (
+              <IPAMManager />
+            )}
+            
+            {activeTab === 'template' && (
+              <TemplateDesigner
+                template={template}
+                onTemplateChange={setTemplate}
+                address={currentAddress}
+                saveError={templateSaveError}
+              />
+            )}
+            
+            {activeTab === 'summarize' && (
+              <>
+                <RouteSummarizer />
+                <RangeConverter />
+              </>
+            )}
+            
+            {activeTab === 'sets' && (
+              <PrefixSetCalculator />
+            )}
+            
+            {activeTab === 'transition' && (
+              <TransitionTools />
+            )}
+            
+            {activeTab === 'generators' && (
+              <>
+                <ULAPrefixGenerator onUsePrefix={handleUseInSubnetting} />
+                <InterfaceIdTools />
+                <PrivacyAddressGenerator />
+              </>
+            )}
+            
             {activeTab === 'batch' && (
               <BatchProcessor />
             )}
@@ -119,6 +196,18 @@ function App() {
               <ul className="text-gray-400 text-sm space-y-2">
                 <li>• RFC-compliant IPv6 parsing</li>
                 <li>• Advanced subnetting tools</li>
+                <li>• VLSM allocation planning</li>
+                <li>• Persistent IPAM allocation tree</li>
+                <li>• Bit-field addressing templates</li>
+                <li>• Exact route summarization</li>
+                <li>• Prefix set operations</li>
+                <li>• Teredo, 6to4, ISATAP & NAT64 decoding</li>
+                <li>• MAC ⇄ EUI-64 conversion</li>
+                <li>• Multicast & embedded-RP analysis</li>
+                <li>• Solicited-node & NDP helpers</li>
+                <li>• Reserved anycast detection</li>
+                <li>• Stable & temporary privacy IIDs</li>
+                <li>• RFC 4193 ULA prefix generation</li>
                 <li>• Batch address processing</li>
                 <li>• Binary visualization</li>
                 <li>• Export capabilities</li>
@@ -131,6 +220,9 @@ function App() {
                 <li>• RFC 5952 (Text Representation)</li>
                 <li>• RFC 4193 (Unique Local)</li>
                 <li>• RFC 4007 (Scoped Addresses)</li>
+                <li>• RFC 2526 (Reserved Subnet Anycast)</li>
+                <li>• RFC 3531 (Subnet ID Assignment)</li>
+                <li>• RFC 7217 / RFC 8981 (Privacy IIDs)</li>
               </ul>
             </div>
           </div>
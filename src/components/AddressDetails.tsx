@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
-import { IPv6Address } from '../types/ipv6';
+import { IPv6Address, InputFormat, ComplianceStatus, AnycastKind, BitFieldTemplate } from '../types/ipv6';
+import { EUI64 } from '../utils/eui64';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { BitFieldTemplates, FIELD_COLORS } from '../utils/bitFieldTemplate';
 import { 
   Network, 
   Info, 
@@ -11,11 +14,18 @@ import {
   ChevronDown,
   ChevronRight,
   Eye,
-  EyeOff
+  EyeOff,
+  Router,
+  Fingerprint,
+  Radio,
+  Radar,
+  Target,
+  AlertTriangle
 } from 'lucide-react';
 
 interface AddressDetailsProps {
   address: IPv6Address;
+  template?: BitFieldTemplate;
 }
 
 interface ExpandableSection {
@@ -25,7 +35,7 @@ interface ExpandableSection {
   defaultExpanded?: boolean;
 }
 
-export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
+export const AddressDetails: React.FC<AddressDetailsProps> = ({ address, template }) => {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(['general', 'formats'])
   );
@@ -45,6 +55,10 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
     navigator.clipboard.writeText(text);
   };
 
+  const templateFields = template && address.isValid
+    ? BitFieldTemplates.decode(template, IPv6Parser.toValue(address), address.prefixLength)
+    : null;
+
   const renderBinaryAddress = () => {
     const binaryParts = address.binary.split(' ');
     const prefixHextets = Math.floor(address.prefixLength / 16);
@@ -64,13 +78,21 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
                   isPrefix = true;
                 }
                 
+                const position = index * 16 + bitIndex;
+                const field = templateFields?.find(candidate =>
+                  position >= candidate.offset && position < candidate.offset + candidate.width
+                );
+                
                 return (
                   <span
                     key={bitIndex}
+                    title={field?.name}
                     className={`${
-                      isPrefix 
-                        ? 'text-blue-300 bg-blue-900/30' 
-                        : 'text-teal-300 bg-teal-900/30'
+                      field
+                        ? FIELD_COLORS[field.colorIndex].bits
+                        : isPrefix 
+                          ? 'text-blue-300 bg-blue-900/30' 
+                          : 'text-teal-300 bg-teal-900/30'
                     } px-0.5 ${bitIndex % 4 === 3 ? 'mr-1' : ''}`}
                   >
                     {bit}
@@ -94,13 +116,34 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
       'Link-Local': 'text-yellow-400 bg-yellow-900/20',
       'Unique Local (ULA)': 'text-purple-400 bg-purple-900/20',
       'Multicast': 'text-orange-400 bg-orange-900/20',
+      'Anycast': 'text-amber-400 bg-amber-900/20',
       'Loopback': 'text-blue-400 bg-blue-900/20',
       'Reserved': 'text-red-400 bg-red-900/20',
-      'IPv4-Mapped': 'text-cyan-400 bg-cyan-900/20'
+      'IPv4-Mapped': 'text-cyan-400 bg-cyan-900/20',
+      'IPv4/IPv6 Translation': 'text-cyan-400 bg-cyan-900/20',
+      'Documentation': 'text-pink-400 bg-pink-900/20',
+      'Discard-Only': 'text-red-400 bg-red-900/20'
     };
     return colors[type] || 'text-gray-400 bg-gray-900/20';
   };
 
+  const renderRegistryFlag = (label: string, flag: boolean | null) => (
+    <div key={label} className="flex items-center justify-between p-2 bg-gray-700 rounded-lg">
+      <span className="text-sm text-gray-300">{label}</span>
+      <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+        flag === null
+          ? 'bg-gray-600 text-gray-300'
+          : flag
+            ? 'bg-green-900/30 text-green-300'
+            : 'bg-red-900/30 text-red-300'
+      }`}>
+        {flag === null ? 'N/A' : flag ? 'True' : 'False'}
+      </span>
+    </div>
+  );
+
+  const macOctets = address.macAddress ? EUI64.parseMac(address.macAddress.mac) : null;
+
   const sections: ExpandableSection[] = [
     {
       title: 'General Information',
@@ -123,6 +166,27 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
               <label className="block text-xs font-medium text-gray-400 mb-1">Prefix Length</label>
               <div className="text-white">/{address.prefixLength}</div>
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Input Kind</label>
+              <div className={address.hasHostBitsSet ? 'text-yellow-300' : 'text-white'}>
+                {address.inputKind}
+                {address.hasHostBitsSet && (
+                  <span className="text-gray-400 text-sm"> (network is {address.networkAddress})</span>
+                )}
+              </div>
+            </div>
+            {address.inputFormat && address.inputFormat !== InputFormat.IPv6Text && (
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Input Format</label>
+                <div className="text-white">{address.inputFormat}</div>
+              </div>
+            )}
+            {address.zoneId && (
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Zone ID</label>
+                <div className="text-white font-mono text-sm">%{address.zoneId}</div>
+              </div>
+            )}
           </div>
           <div className="space-y-3">
             <div>
@@ -159,6 +223,12 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
           {[
             { label: 'Expanded', value: address.expanded },
             { label: 'Compressed', value: address.compressed },
+            ...(address.mixedNotation
+              ? [{ label: 'Mixed (IPv4-Embedded)', value: address.mixedNotation }]
+              : []),
+            ...(address.zoneId
+              ? [{ label: 'Scoped (with Zone ID)', value: `${address.compressed}%${address.zoneId}` }]
+              : []),
             { label: 'Network Address', value: address.networkAddress },
             { label: 'Hexadecimal', value: address.hex },
             { label: 'Integer', value: address.integer },
@@ -186,7 +256,10 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
       content: (
         <div className="space-y-4">
           <div className="flex items-center justify-between">
-            <p className="text-gray-400 text-sm">128-bit binary representation with prefix highlighting</p>
+            <p className="text-gray-400 text-sm">
+              128-bit binary representation with prefix highlighting
+              {templateFields && template ? ` and the "${template.name}" template fields` : ''}
+            </p>
             <button
               onClick={() => setShowBinary(!showBinary)}
               className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-300 transition-colors duration-200"
@@ -198,7 +271,7 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
           {showBinary && (
             <div className="bg-gray-700 rounded-lg p-4 overflow-x-auto">
               {renderBinaryAddress()}
-              <div className="flex items-center gap-4 mt-4 text-xs text-gray-400">
+              <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-400">
                 <div className="flex items-center gap-2">
                   <div className="w-3 h-3 bg-blue-900/30 border border-blue-300 rounded"></div>
                   <span>Network Prefix</span>
@@ -207,6 +280,14 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
                   <div className="w-3 h-3 bg-teal-900/30 border border-teal-300 rounded"></div>
                   <span>Interface Identifier</span>
                 </div>
+                {templateFields?.map(field => (
+                  <div key={field.name} className="flex items-center gap-2">
+                    <div className={`w-3 h-3 rounded ${FIELD_COLORS[field.colorIndex].swatch}`}></div>
+                    <span className={field.isAllowed ? '' : 'text-red-400'}>
+                      {field.name}{field.isDetermined ? ` = ${field.value.toString()}` : ''}
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
           )}
@@ -247,6 +328,250 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
         </div>
       )
     },
+    ...(address.specialPurpose ? [{
+      title: 'Special-Purpose Registry',
+      icon: <Globe className="w-5 h-5" />,
+      content: (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+              <div className="text-white">{address.specialPurpose.name}</div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Address Block</label>
+              <code className="text-white text-sm">{address.specialPurpose.prefix}</code>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Reference</label>
+              <div className="text-white">{address.specialPurpose.rfc}</div>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {renderRegistryFlag('Source', address.specialPurpose.source)}
+            {renderRegistryFlag('Destination', address.specialPurpose.destination)}
+            {renderRegistryFlag('Forwardable', address.specialPurpose.forwardable)}
+            {renderRegistryFlag('Globally Reachable', address.specialPurpose.globallyReachable)}
+            {renderRegistryFlag('Reserved-by-Protocol', address.specialPurpose.reservedByProtocol)}
+          </div>
+        </div>
+      )
+    }] : []),
+    ...(address.embeddedIPv4.length > 0 ? [{
+      title: 'Embedded IPv4',
+      icon: <Network className="w-5 h-5" />,
+      content: (
+        <div className="space-y-3">
+          {address.embeddedIPv4.map(embedded => (
+            <div key={embedded.kind} className="grid grid-cols-1 md:grid-cols-3 gap-4 p-3 bg-gray-700 rounded-lg">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Mechanism</label>
+                <div className="text-white">{embedded.kind}</div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">IPv4 Address</label>
+                <code className="text-white text-sm">{embedded.ipv4}</code>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Carrying Prefix</label>
+                <code className="text-white text-sm">{embedded.prefix}</code>
+              </div>
+            </div>
+          ))}
+        </div>
+      )
+    }] : []),
+    ...(address.multicast ? [{
+      title: 'Multicast',
+      icon: <Radio className="w-5 h-5" />,
+      content: (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {[
+              { label: 'R (Embedded RP)', active: address.multicast.hasEmbeddedRP },
+              { label: 'P (Prefix-Based)', active: address.multicast.isPrefixBased },
+              { label: 'T (Transient)', active: address.multicast.isTransient }
+            ].map(flag => (
+              <span
+                key={flag.label}
+                className={`px-2 py-1 text-xs rounded ${
+                  flag.active ? 'bg-orange-900/30 text-orange-300' : 'bg-gray-700 text-gray-400'
+                }`}
+              >
+                {flag.label}: {flag.active ? '1' : '0'}
+              </span>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Scope', value: `${address.multicast.scopeName} (0x${address.multicast.scope.toString(16)})` },
+              { label: 'Group ID', value: address.multicast.groupId },
+              ...(address.multicast.wellKnownGroup
+                ? [{ label: 'Well-Known Group', value: address.multicast.wellKnownGroup }]
+                : []),
+              ...(address.multicast.isSourceSpecific
+                ? [{ label: 'Source-Specific Multicast', value: 'ff3x::/32 (RFC 4607)' }]
+                : []),
+              ...(address.multicast.unicastPrefix
+                ? [{ label: 'Unicast Prefix (RFC 3306)', value: address.multicast.unicastPrefix }]
+                : []),
+              ...(address.multicast.rendezvousPoint
+                ? [{ label: 'Rendezvous Point (RFC 3956)', value: address.multicast.rendezvousPoint }]
+                : []),
+              { label: 'Ethernet MAC', value: address.multicast.macAddress }
+            ].map(field => (
+              <div key={field.label}>
+                <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+                <div className="p-3 bg-gray-700 rounded-lg">
+                  <code className="text-white text-sm break-all">{field.value}</code>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )
+    }] : []),
+    ...(address.solicitedNode ? [{
+      title: 'Neighbor Discovery',
+      icon: <Radar className="w-5 h-5" />,
+      content: (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Solicited-Node Group', value: address.solicitedNode.group },
+              { label: 'Ethernet Destination MAC', value: address.solicitedNode.macAddress }
+            ].map(field => (
+              <div key={field.label} className="group">
+                <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+                <div className="flex items-center gap-2 p-3 bg-gray-700 rounded-lg">
+                  <code className="text-white flex-1 text-sm">{field.value}</code>
+                  <button
+                    onClick={() => copyToClipboard(field.value)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-gray-600 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-400" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">
+              Addresses in {address.solicitedNode.prefix} sharing this group ({BigInt(address.solicitedNode.collisionCount).toLocaleString()})
+            </label>
+            <ul className="p-3 bg-gray-700 rounded-lg font-mono text-sm text-blue-300 grid grid-cols-1 md:grid-cols-2 gap-1">
+              {address.solicitedNode.collisions.map(collision => (
+                <li key={collision} className={collision === address.compressed ? 'text-white font-semibold' : ''}>
+                  {collision}
+                </li>
+              ))}
+              {BigInt(address.solicitedNode.collisionCount) > BigInt(address.solicitedNode.collisions.length) && (
+                <li className="text-gray-400">…</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      )
+    }] : []),
+    ...(address.anycast ? [{
+      title: 'Anycast',
+      icon: <Target className="w-5 h-5" />,
+      content: (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Anycast Address', value: address.anycast.kind },
+              { label: 'Subnet', value: address.anycast.subnet },
+              ...(address.anycast.anycastId !== undefined ? [
+                { label: 'Anycast ID', value: `0x${address.anycast.anycastId.toString(16).padStart(2, '0')}` }
+              ] : []),
+              { label: 'Meaning', value: address.anycast.name }
+            ].map(field => (
+              <div key={field.label}>
+                <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+                <div className="p-3 bg-gray-700 rounded-lg text-white text-sm">{field.value}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            {address.anycast.kind === AnycastKind.SubnetRouter
+              ? 'Every router on the link answers the all-zero interface identifier (RFC 4291 section 2.6.1); do not assign it to a host.'
+              : 'Reserved subnet anycast addresses (RFC 2526) must not be assigned to host interfaces.'}
+          </p>
+        </div>
+      )
+    }] : []),
+    ...(address.macAddress && macOctets ? [{
+      title: 'Interface Identifier (EUI-64)',
+      icon: <Fingerprint className="w-5 h-5" />,
+      content: (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[
+              { label: 'MAC (colon)', value: EUI64.formatMac(macOctets) },
+              { label: 'MAC (dash)', value: EUI64.formatMac(macOctets, '-').toUpperCase() },
+              { label: 'MAC (Cisco)', value: EUI64.formatCiscoMac(macOctets) }
+            ].map(format => (
+              <div key={format.label} className="group">
+                <label className="block text-xs font-medium text-gray-400 mb-1">{format.label}</label>
+                <div className="flex items-center gap-2 p-3 bg-gray-700 rounded-lg">
+                  <code className="text-white flex-1 text-sm">{format.value}</code>
+                  <button
+                    onClick={() => copyToClipboard(format.value)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-gray-600 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-400" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">OUI</label>
+              <div className="text-white">
+                <code className="text-sm">{address.macAddress.oui}</code>
+                <span className="text-gray-400 text-sm"> — {address.macAddress.vendor ?? 'Unknown vendor'}</span>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Flags</label>
+              <div className="flex flex-wrap gap-2">
+                <span className="px-2 py-1 bg-gray-700 text-gray-300 text-xs rounded">
+                  U/L: {address.macAddress.isUniversal ? 'Universally administered' : 'Locally administered'}
+                </span>
+                <span className="px-2 py-1 bg-gray-700 text-gray-300 text-xs rounded">
+                  I/G: {address.macAddress.isGroup ? 'Group' : 'Individual'}
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )
+    }] : []),
+    ...(address.teredo ? [{
+      title: 'Teredo',
+      icon: <Router className="w-5 h-5" />,
+      content: (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { label: 'Teredo Server', value: address.teredo.server },
+            { label: 'Client Public Address', value: address.teredo.clientAddress },
+            { label: 'Client Public Port', value: address.teredo.clientPort.toString() },
+            { label: 'Flags', value: `0x${address.teredo.flags.toString(16).padStart(4, '0')}` },
+            { label: 'NAT Type', value: address.teredo.isCone ? 'Cone NAT' : 'Restricted / symmetric NAT' },
+            { label: 'Random Bits', value: `0x${address.teredo.randomBits.toString(16).padStart(3, '0')}` }
+          ].map(field => (
+            <div key={field.label}>
+              <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+              <div className="p-3 bg-gray-700 rounded-lg">
+                <code className="text-white text-sm">{field.value}</code>
+              </div>
+            </div>
+          ))}
+        </div>
+      )
+    }] : []),
     {
       title: 'RFC Compliance',
       icon: <Shield className="w-5 h-5" />,
@@ -260,16 +585,16 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
                   <div className="text-sm text-gray-400">{rfc.title}</div>
                 </div>
                 <span className={`px-2 py-1 rounded text-sm font-medium ${
-                  rfc.compliant 
-                    ? 'bg-green-900/30 text-green-300' 
-                    : 'bg-red-900/30 text-red-300'
+                  rfc.status === ComplianceStatus.Pass
+                    ? 'bg-green-900/30 text-green-300'
+                    : rfc.status === ComplianceStatus.Warn
+                      ? 'bg-yellow-900/30 text-yellow-300'
+                      : 'bg-red-900/30 text-red-300'
                 }`}>
-                  {rfc.compliant ? 'Compliant' : 'Non-compliant'}
+                  {rfc.status === ComplianceStatus.Pass ? 'Pass' : rfc.status === ComplianceStatus.Warn ? 'Warning' : 'Fail'}
                 </span>
               </div>
-              {rfc.notes && (
-                <p className="text-gray-400 text-sm mt-2">{rfc.notes}</p>
-              )}
+              <p className="text-gray-400 text-sm mt-2">{rfc.explanation}</p>
             </div>
           ))}
         </div>
@@ -283,6 +608,16 @@ export const AddressDetails: React.FC<AddressDetailsProps> = ({ address }) => {
 
   return (
     <div className="space-y-4">
+      {address.warnings.length > 0 && (
+        <div className="p-4 bg-yellow-900/20 border border-yellow-500/30 rounded-xl space-y-2">
+          {address.warnings.map(warning => (
+            <p key={warning} className="text-yellow-300 text-sm flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
       {sections.map((section, index) => (
         <div key={index} className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden">
           <button
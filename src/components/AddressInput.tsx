@@ -1,30 +1,56 @@
-import React, { useState, useCallback } from 'react';
-import { Globe, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+import React, { useState, useCallback, useRef } from 'react';
+import { Globe, AlertCircle, AlertTriangle, CheckCircle, Copy, ShieldCheck, Wand2 } from 'lucide-react';
+import { InputFormat, ParseError, ParseOptions } from '../types/ipv6';
 
 interface AddressInputProps {
-  onAddressChange: (address: string) => void;
+  value: string;
+  onAddressChange: (address: string, options: ParseOptions) => void;
   isValid: boolean;
-  error?: string;
+  error?: ParseError;
+  inputFormat?: InputFormat;
+  hasHostBitsSet?: boolean;
+  networkAddress?: string;
 }
 
-export const AddressInput: React.FC<AddressInputProps> = ({ onAddressChange, isValid, error }) => {
-  const [input, setInput] = useState('2001:db8::/32');
+export const AddressInput: React.FC<AddressInputProps> = ({
+  value: input,
+  onAddressChange,
+  isValid,
+  error,
+  inputFormat,
+  hasHostBitsSet,
+  networkAddress
+}) => {
+  const [strict, setStrict] = useState(false);
   const [showExamples, setShowExamples] = useState(false);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   const examples = [
     { address: '2001:db8::/32', type: 'Documentation Prefix' },
     { address: 'fe80::1/64', type: 'Link-Local' },
+    { address: 'fe80::1%eth0', type: 'Link-Local (Zone ID)' },
     { address: 'fc00::/7', type: 'Unique Local' },
     { address: '::1', type: 'Loopback' },
     { address: '::ffff:192.168.1.1', type: 'IPv4-Mapped' },
+    { address: '64:ff9b::192.0.2.33', type: 'NAT64 (IPv4-Embedded)' },
     { address: '2001::/16', type: 'Global Unicast' },
-    { address: 'ff02::1', type: 'Multicast' }
+    { address: 'ff02::1', type: 'Multicast' },
+    { address: '42540766411282592856903984951653826561', type: '128-bit Integer' },
+    { address: '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa', type: 'Reverse DNS (PTR)' }
   ];
 
   const handleInputChange = useCallback((value: string) => {
-    setInput(value);
-    onAddressChange(value);
-  }, [onAddressChange]);
+    onAddressChange(value, { strict });
+  }, [onAddressChange, strict]);
+
+  const handleStrictChange = (checked: boolean) => {
+    setStrict(checked);
+    onAddressChange(input, { strict: checked });
+  };
+
+  // Error offsets are relative to the trimmed input
+  const highlightStart = error ? input.length - input.trimStart().length + error.offset : 0;
+  const highlightEnd = error ? highlightStart + Math.max(error.length, 1) : 0;
 
   const handleExampleClick = (address: string) => {
     handleInputChange(address);
@@ -39,17 +65,43 @@ export const AddressInput: React.FC<AddressInputProps> = ({ onAddressChange, isV
     <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
       <div className="space-y-4">
         <div>
-          <label htmlFor="ipv6-input" className="block text-sm font-medium text-gray-300 mb-2">
-            IPv6 Address or Prefix
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="ipv6-input" className="block text-sm font-medium text-gray-300">
+              IPv6 Address or Prefix
+            </label>
+            {inputFormat && inputFormat !== InputFormat.IPv6Text && (
+              <span className="px-2 py-0.5 bg-blue-900/30 text-blue-300 text-xs rounded">
+                Detected: {inputFormat}
+              </span>
+            )}
+          </div>
           <div className="relative">
+            {error && input.trim() && (
+              <div
+                ref={highlightRef}
+                aria-hidden="true"
+                className="absolute inset-0 px-4 py-3 border border-transparent rounded-lg font-mono whitespace-pre overflow-hidden pointer-events-none text-transparent"
+              >
+                {input.slice(0, highlightStart)}
+                <mark className="bg-red-500/50 text-transparent rounded-sm">
+                  {input.slice(highlightStart, highlightEnd) || ' '}
+                </mark>
+                {input.slice(highlightEnd)}
+              </div>
+            )}
             <input
               id="ipv6-input"
               type="text"
               value={input}
               onChange={(e) => handleInputChange(e.target.value)}
-              placeholder="e.g., 2001:db8::/32 or fe80::1"
-              className={`w-full px-4 py-3 rounded-lg border transition-all duration-200 text-white placeholder-gray-500 ${
+              onScroll={(e) => {
+                if (highlightRef.current) {
+                  highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+                }
+              }}
+              placeholder="e.g., 2001:db8::/32, fe80::1%eth0, 0x2001…, or an ip6.arpa name"
+              spellCheck={false}
+              className={`relative w-full px-4 py-3 rounded-lg border font-mono transition-all duration-200 text-white placeholder-gray-500 ${
                 error 
                   ? 'border-red-500 bg-red-900/20 focus:border-red-400' 
                   : isValid 
@@ -66,10 +118,35 @@ export const AddressInput: React.FC<AddressInputProps> = ({ onAddressChange, isV
             </div>
           </div>
           {error && (
-            <p className="text-red-400 text-sm mt-2 flex items-center gap-2">
-              <AlertCircle className="w-4 h-4" />
-              {error}
-            </p>
+            <div className="mt-2 space-y-1">
+              <p className="text-red-400 text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {error.message}
+                {error.token && (
+                  <span className="text-red-300/80">
+                    at position {error.offset + 1}: <code className="font-mono">{error.token}</code>
+                  </span>
+                )}
+              </p>
+              {error.suggestion && (
+                <p className="text-gray-400 text-sm pl-6">{error.suggestion}</p>
+              )}
+            </div>
+          )}
+          {isValid && hasHostBitsSet && networkAddress && (
+            <div className="mt-2 flex flex-wrap items-center gap-3 p-3 bg-yellow-900/20 border border-yellow-500/30 rounded-lg">
+              <p className="text-yellow-300 text-sm flex items-center gap-2 flex-1">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                Bits beyond the prefix length are set: this is an interface address with a prefix, not a network prefix.
+              </p>
+              <button
+                onClick={() => handleInputChange(networkAddress)}
+                className="px-3 py-1.5 bg-yellow-600/30 hover:bg-yellow-600/50 text-yellow-200 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+              >
+                <Wand2 className="w-4 h-4" />
+                Normalise to {networkAddress}
+              </button>
+            </div>
           )}
         </div>
 
@@ -88,6 +165,16 @@ export const AddressInput: React.FC<AddressInputProps> = ({ onAddressChange, isV
             <Copy className="w-4 h-4" />
             Copy
           </button>
+          <label className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={strict}
+              onChange={(e) => handleStrictChange(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+            />
+            <ShieldCheck className="w-4 h-4" />
+            Strict RFC 4291
+          </label>
         </div>
 
         {showExamples && (
@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { IPv6Address } from '../types/ipv6';
+import { IPv6AllocationPlanner } from '../utils/allocationPlanner';
+import { LayoutGrid, Upload, Copy, Download, AlertCircle } from 'lucide-react';
+
+interface AllocationPlannerProps {
+  address: IPv6Address;
+}
+
+export const AllocationPlanner: React.FC<AllocationPlannerProps> = ({ address }) => {
+  const [requirements, setRequirements] = useState('');
+
+  const result = useMemo(() => {
+    if (!address.isValid || requirements.trim().length === 0) {
+      return {};
+    }
+
+    try {
+      const parsed = IPv6AllocationPlanner.parseRequirements(requirements);
+      return { plan: IPv6AllocationPlanner.plan(address.networkAddress, parsed) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [address, requirements]);
+
+  const handleLoadSample = () => {
+    setRequirements('DC-East: 200 /64s\nDC-West: 120 /64s\nP2P links: 64 × /127\nLoopbacks: 1 /64\nManagement: 16 /64s');
+  };
+
+  const copyPlan = () => {
+    if (!result.plan) return;
+
+    const text = result.plan.allocations
+      .map(allocation => `${allocation.prefix} - ${allocation.name} (${allocation.requestedCount} × /${allocation.subnetPrefixLength})`)
+      .join('\n');
+
+    navigator.clipboard.writeText(text);
+  };
+
+  const exportPlan = () => {
+    if (!result.plan) return;
+
+    const json = JSON.stringify(result.plan, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ipv6-allocation-plan.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!address.isValid) {
+    return (
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <div className="flex items-center gap-3 mb-4">
+          <LayoutGrid className="w-6 h-6 text-blue-400" />
+          <h2 className="text-xl font-semibold text-white">Allocation Planner</h2>
+        </div>
+        <p className="text-gray-400">Enter a valid IPv6 prefix to plan allocations from it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <LayoutGrid className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Allocation Planner</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Requirements for {address.networkAddress} (one per line)
+          </label>
+          <textarea
+            value={requirements}
+            onChange={(e) => setRequirements(e.target.value)}
+            placeholder={'DC-East: 200 /64s\nP2P links: 64 × /127\nLoopbacks: 1 /64'}
+            rows={6}
+            spellCheck={false}
+            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleLoadSample}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Load Sample
+          </button>
+          <button
+            onClick={copyPlan}
+            disabled={!result.plan}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Copy className="w-4 h-4" />
+            Copy
+          </button>
+          <button
+            onClick={exportPlan}
+            disabled={!result.plan}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        </div>
+
+        {result.error && (
+          <p className="text-red-400 text-sm flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {result.error}
+          </p>
+        )}
+
+        {result.plan && (
+          <>
+            <div className="bg-gray-700 rounded-lg overflow-hidden">
+              <div className="grid grid-cols-4 gap-4 px-4 py-3 bg-gray-600 text-sm font-medium text-gray-300">
+                <div>Name</div>
+                <div>Block</div>
+                <div>Subnets Used</div>
+                <div>Requested Range</div>
+              </div>
+              <div className="divide-y divide-gray-600">
+                {result.plan.allocations.map(allocation => (
+                  <div key={allocation.name + allocation.prefix} className="grid grid-cols-4 gap-4 px-4 py-3 text-sm">
+                    <div className="text-white">{allocation.name}</div>
+                    <div className="font-mono text-blue-300">{allocation.prefix}</div>
+                    <div className="text-gray-300">
+                      {allocation.requestedCount.toLocaleString()} of {allocation.capacity.toLocaleString()} × /{allocation.subnetPrefixLength}
+                    </div>
+                    <div className="font-mono text-white text-xs">
+                      {allocation.firstSubnet}
+                      {allocation.requestedCount > 1 && <> – {allocation.lastSubnet}</>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Unused Space ({result.plan.unusedPercentage}% of {result.plan.parentPrefix})
+              </label>
+              {result.plan.unusedPrefixes.length > 0 ? (
+                <div className="bg-gray-700 rounded-lg p-4 font-mono text-sm text-blue-300 max-h-64 overflow-y-auto">
+                  {result.plan.unusedPrefixes.map(prefix => (
+                    <div key={prefix}>{prefix}</div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">The requirements use the whole parent prefix.</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,31 @@
 import React, { useState, useMemo } from 'react';
 import { IPv6Parser } from '../utils/ipv6Parser';
 import { IPv6Address } from '../types/ipv6';
-import { List, Upload, Download, Copy, CheckCircle, AlertCircle } from 'lucide-react';
+import { List, Upload, Download, Copy, CheckCircle, AlertCircle, AlertTriangle, Wand2 } from 'lucide-react';
+
+const formatScoped = (result: IPv6Address) =>
+  result.zoneId ? `${result.compressed}%${result.zoneId}` : result.compressed;
 
 export const BatchProcessor: React.FC = () => {
   const [input, setInput] = useState('');
   const [results, setResults] = useState<IPv6Address[]>([]);
   const [showResults, setShowResults] = useState(false);
+  const [strict, setStrict] = useState(false);
 
   const sampleData = `2001:db8::/32
 fe80::1/64
+2001:db8::1/32
+2001:0:4136:e378:8000:63bf:3fff:fdd2
+2002:c000:22a::5efe:192.0.2.1
+ff7e:140:2001:db8:beef:feed::1234
+fe80::1%eth0
 fc00::/7
 ::1
 ::ffff:192.168.1.1
 2001::/16
-ff02::1`;
+ff02::1
+0x20010db8000000000000000000000001
+IAENuAAAAAAAAAAAAAAAAQ==`;
 
   const processedResults = useMemo(() => {
     if (!input.trim()) return [];
@@ -23,16 +34,25 @@ ff02::1`;
       .split('\n')
       .map(line => line.trim())
       .filter(line => line.length > 0)
-      .map(line => IPv6Parser.parse(line));
+      .map(line => IPv6Parser.parseAny(line, { strict }));
     
     return addresses;
-  }, [input]);
+  }, [input, strict]);
 
   const handleProcess = () => {
     setResults(processedResults);
     setShowResults(true);
   };
 
+  // Rewrites selected inputs as their canonical network prefix, keeping any zone ID, and re-runs the batch
+  const normalizeResults = (shouldNormalize: (result: IPv6Address, index: number) => boolean) => {
+    const lines = results.map((result, index) =>
+      result.isValid && result.hasHostBitsSet && shouldNormalize(result, index) ? IPv6Parser.getNetworkInput(result) : result.input
+    );
+    setInput(lines.join('\n'));
+    setResults(lines.map(line => IPv6Parser.parseAny(line, { strict })));
+  };
+
   const handleLoadSample = () => {
     setInput(sampleData);
   };
@@ -43,11 +63,23 @@ ff02::1`;
     const data = results.map(result => ({
       input: result.input,
       isValid: result.isValid,
+      inputFormat: result.inputFormat,
       addressType: result.addressType,
+      specialPurpose: result.specialPurpose,
+      teredo: result.teredo,
+      embeddedIPv4: result.embeddedIPv4,
+      macAddress: result.macAddress,
+      multicast: result.multicast,
+      solicitedNode: result.solicitedNode,
+      anycast: result.anycast,
+      warnings: result.warnings,
       scope: result.scope,
       expanded: result.expanded,
       compressed: result.compressed,
+      zoneId: result.zoneId,
       networkAddress: result.networkAddress,
+      inputKind: result.inputKind,
+      hasHostBitsSet: result.hasHostBitsSet,
       error: result.error
     }));
     
@@ -62,13 +94,14 @@ ff02::1`;
 
   const copyResults = () => {
     const text = results
-      .map(result => `${result.input}: ${result.isValid ? result.addressType : result.error}`)
+      .map(result => `${result.input}: ${result.isValid ? result.addressType : result.error?.message}`)
       .join('\n');
     
     navigator.clipboard.writeText(text);
   };
 
   const validCount = results.filter(r => r.isValid).length;
+  const hostBitsCount = results.filter(r => r.isValid && r.hasHostBitsSet).length;
   const invalidCount = results.filter(r => !r.isValid).length;
 
   const addressTypeCounts = results
@@ -78,6 +111,15 @@ ff02::1`;
       return acc;
     }, {} as Record<string, number>);
 
+  const solicitedNodeGroups = Object.entries(results
+    .filter(r => r.isValid && r.solicitedNode)
+    .reduce((acc, result) => {
+      const group = result.solicitedNode!.group;
+      acc[group] = [...(acc[group] || []), formatScoped(result)];
+      return acc;
+    }, {} as Record<string, string[]>))
+    .sort(([, a], [, b]) => b.length - a.length);
+
   return (
     <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
       <div className="flex items-center gap-3 mb-6">
@@ -114,6 +156,15 @@ ff02::1`;
           >
             Process Addresses
           </button>
+          <label className="px-4 py-2 text-gray-300 text-sm flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={strict}
+              onChange={(e) => setStrict(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+            />
+            Strict RFC 4291 validation
+          </label>
         </div>
 
         {showResults && results.length > 0 && (
@@ -130,6 +181,15 @@ ff02::1`;
                 </div>
               </div>
               <div className="flex gap-2">
+                {hostBitsCount > 0 && (
+                  <button
+                    onClick={() => normalizeResults(() => true)}
+                    className="px-3 py-2 bg-yellow-600/30 hover:bg-yellow-600/50 text-yellow-200 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    Normalise {hostBitsCount}
+                  </button>
+                )}
                 <button
                   onClick={copyResults}
                   className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
@@ -161,6 +221,25 @@ ff02::1`;
               </div>
             )}
 
+            {solicitedNodeGroups.length > 0 && (
+              <div className="bg-gray-700 rounded-lg p-4">
+                <h3 className="text-white font-medium mb-3">Solicited-Node Groups</h3>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {solicitedNodeGroups.map(([group, members]) => (
+                    <div key={group} className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                      <div className={`font-mono ${members.length > 1 ? 'text-yellow-300' : 'text-blue-300'}`}>
+                        {group}
+                        {members.length > 1 && <span className="text-xs text-gray-400"> ({members.length} addresses)</span>}
+                      </div>
+                      <div className="md:col-span-2 font-mono text-gray-300 break-all">
+                        {members.join(', ')}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="bg-gray-700 rounded-lg overflow-hidden">
               <div className="grid grid-cols-4 gap-4 px-4 py-3 bg-gray-600 text-sm font-medium text-gray-300">
                 <div>Input</div>
@@ -176,7 +255,17 @@ ff02::1`;
                       {result.input}
                     </div>
                     <div className="flex items-center gap-2">
-                      {result.isValid ? (
+                      {result.isValid && result.hasHostBitsSet ? (
+                        <button
+                          onClick={() => normalizeResults((_, i) => i === index)}
+                          title={`Normalise to ${IPv6Parser.getNetworkInput(result)}`}
+                          className="flex items-center gap-2 text-yellow-300 hover:text-yellow-200"
+                        >
+                          <AlertTriangle className="w-4 h-4" />
+                          <span>Host bits set</span>
+                          <Wand2 className="w-4 h-4" />
+                        </button>
+                      ) : result.isValid ? (
                         <>
                           <CheckCircle className="w-4 h-4 text-green-400" />
                           <span className="text-green-400">Valid</span>
@@ -188,11 +277,11 @@ ff02::1`;
                         </>
                       )}
                     </div>
-                    <div className="text-gray-300">
+                    <div className="text-gray-300" title={result.specialPurpose && `${result.specialPurpose.name} (${result.specialPurpose.prefix})`}>
                       {result.isValid ? result.addressType : 'Error'}
                     </div>
-                    <div className="font-mono text-white truncate" title={result.isValid ? result.compressed : result.error}>
-                      {result.isValid ? result.compressed : result.error}
+                    <div className="font-mono text-white truncate" title={result.isValid ? formatScoped(result) : result.error?.suggestion}>
+                      {result.isValid ? formatScoped(result) : result.error?.message}
                     </div>
                   </div>
                 ))}
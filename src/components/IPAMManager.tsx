@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AllocationStatus, IPAMNode } from '../types/ipv6';
+import { IPAMTree } from '../utils/ipam';
+import {
+  FolderTree,
+  Plus,
+  Upload,
+  Download,
+  ChevronDown,
+  ChevronRight,
+  Scissors,
+  Trash2,
+  AlertCircle
+} from 'lucide-react';
+
+const STATUS_STYLES: Record<AllocationStatus, string> = {
+  [AllocationStatus.Free]: 'bg-gray-600 text-gray-300',
+  [AllocationStatus.Allocated]: 'bg-green-900/30 text-green-300',
+  [AllocationStatus.Reserved]: 'bg-yellow-900/30 text-yellow-300'
+};
+
+export const IPAMManager: React.FC = () => {
+  const [stored] = useState(() => IPAMTree.load());
+  const [roots, setRoots] = useState<IPAMNode[]>(stored.roots);
+  const [loadError, setLoadError] = useState<string | null>(stored.error ?? null);
+  const [newRoot, setNewRoot] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [subdivideLength, setSubdivideLength] = useState('');
+  const [allocationLength, setAllocationLength] = useState('56');
+  const [allocationOwner, setAllocationOwner] = useState('');
+  const [allocationDescription, setAllocationDescription] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Leave unreadable stored data alone until the user discards it or imports over it
+    if (loadError) return;
+    const saveError = IPAMTree.save(roots);
+    if (saveError) {
+      setError(saveError);
+    }
+  }, [roots, loadError]);
+
+  const selected = selectedId ? IPAMTree.find(roots, selectedId) : null;
+  const selectedPrefixLength = selected ? IPAMTree.getPrefixLength(selected.prefix) : 0;
+
+  // Runs a tree change, surfacing its RangeError instead of applying it
+  const apply = (change: () => IPAMNode[], success: string | null = null): boolean => {
+    try {
+      setRoots(change());
+      setError(null);
+      setMessage(success);
+      return true;
+    } catch (changeError) {
+      setError((changeError as Error).message);
+      setMessage(null);
+      return false;
+    }
+  };
+
+  const handleAddRoot = () => {
+    if (apply(() => IPAMTree.addRoot(roots, newRoot))) {
+      setNewRoot('');
+    }
+  };
+
+  const handleSubdivide = () => {
+    if (!selected) return;
+    apply(() => IPAMTree.subdivide(roots, selected.id, parseInt(subdivideLength || `${selectedPrefixLength + 1}`, 10)));
+  };
+
+  const handleAllocateNextFree = () => {
+    if (!selected) return;
+    let prefix = '';
+    const allocated = apply(() => {
+      const result = IPAMTree.allocateNextFree(roots, selected.id, parseInt(allocationLength, 10), {
+        owner: allocationOwner,
+        description: allocationDescription
+      });
+      prefix = result.prefix;
+      return result.roots;
+    });
+    if (allocated) {
+      setMessage(`Allocated ${prefix}`);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!selected) return;
+    apply(() => IPAMTree.remove(roots, selected.id));
+    setSelectedId(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    if (apply(() => IPAMTree.fromJSON(text), `Imported ${file.name}`)) {
+      setLoadError(null);
+    }
+    setSelectedId(null);
+  };
+
+  const handleDiscardStored = () => {
+    setRoots([]);
+    setLoadError(null);
+    setSelectedId(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([IPAMTree.toJSON(roots)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ipv6-ipam.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Default the length pickers to the new node: subdivide by one bit, allocate 8 bits deeper
+  const selectNode = (node: IPAMNode) => {
+    const prefixLength = IPAMTree.getPrefixLength(node.prefix);
+    setSelectedId(node.id);
+    setSubdivideLength('');
+    setAllocationLength(`${Math.min(prefixLength + 8, 128)}`);
+  };
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setCollapsed(next);
+  };
+
+  const renderNode = (node: IPAMNode, depth: number): React.ReactNode => (
+    <div key={node.id}>
+      <div
+        onClick={() => selectNode(node)}
+        className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-gray-600 transition-colors duration-200 ${
+          node.id === selectedId ? 'bg-blue-900/30' : ''
+        }`}
+        style={{ paddingLeft: `${depth * 1.25 + 0.75}rem` }}
+      >
+        {node.children.length > 0 ? (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleCollapsed(node.id);
+            }}
+            className="p-0.5 hover:bg-gray-500 rounded"
+          >
+            {collapsed.has(node.id)
+              ? <ChevronRight className="w-4 h-4 text-gray-400" />
+              : <ChevronDown className="w-4 h-4 text-gray-400" />}
+          </button>
+        ) : (
+          <span className="w-5" />
+        )}
+        <code className="text-blue-300">{node.prefix}</code>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[node.status]}`}>
+          {node.status}
+        </span>
+        {node.owner && <span className="text-white">{node.owner}</span>}
+        {node.description && <span className="text-gray-400 truncate">{node.description}</span>}
+        {node.children.length > 0 && (
+          <span className="ml-auto text-xs text-gray-400">{IPAMTree.getUtilization(node)}% used</span>
+        )}
+      </div>
+      {!collapsed.has(node.id) && node.children.map(child => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <FolderTree className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">IPAM Allocations</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={newRoot}
+            onChange={(e) => setNewRoot(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddRoot()}
+            placeholder="Aggregate, e.g. 2001:db8::/32"
+            spellCheck={false}
+            className="flex-1 min-w-0 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+          />
+          <button
+            onClick={handleAddRoot}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Aggregate
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={roots.length === 0}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+
+        {loadError && (
+          <div className="bg-red-900/20 border border-red-700 rounded-lg p-4 flex flex-wrap items-center gap-3">
+            <p className="text-red-300 text-sm flex items-center gap-2 flex-1">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {loadError}. Changes are not saved until you import a file or discard the stored data.
+            </p>
+            <button
+              onClick={handleDiscardStored}
+              className="px-4 py-2 bg-red-700 hover:bg-red-600 text-white text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Discard Stored Data
+            </button>
+          </div>
+        )}
+        {error && (
+          <p className="text-red-400 text-sm flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+        {message && <p className="text-green-400 text-sm">{message}</p>}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-gray-700 rounded-lg overflow-hidden divide-y divide-gray-600 h-fit">
+            {roots.length > 0
+              ? roots.map(root => renderNode(root, 0))
+              : <p className="p-4 text-sm text-gray-400">Add an aggregate to start tracking allocations.</p>}
+          </div>
+
+          <div className="bg-gray-700 rounded-lg p-4 h-fit space-y-4">
+            {selected ? (
+              <>
+                <div>
+                  <code className="text-white font-semibold">{selected.prefix}</code>
+                  <p className="text-xs text-gray-400 mt-1">{IPAMTree.getUtilization(selected)}% allocated or reserved below</p>
+                </div>
+
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">Status</label>
+                    <select
+                      value={selected.status}
+                      onChange={(e) => apply(() => IPAMTree.update(roots, selected.id, { status: e.target.value as AllocationStatus }))}
+                      className="w-full px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+                    >
+                      {Object.values(AllocationStatus).map(status => (
+                        <option key={status} value={status}>{status}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {[
+                    { label: 'Owner', field: 'owner' as const },
+                    { label: 'Description', field: 'description' as const }
+                  ].map(({ label, field }) => (
+                    <div key={field}>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+                      <input
+                        type="text"
+                        value={selected[field]}
+                        onChange={(e) => apply(() => IPAMTree.update(roots, selected.id, { [field]: e.target.value }))}
+                        className="w-full px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {selectedPrefixLength < 128 && (
+                  <div className="space-y-2 pt-2 border-t border-gray-600">
+                    <label className="block text-xs font-medium text-gray-400">Next Free Allocation</label>
+                    <div className="flex gap-2">
+                      <select
+                        value={allocationLength}
+                        onChange={(e) => setAllocationLength(e.target.value)}
+                        className="px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+                      >
+                        {Array.from({ length: 128 - selectedPrefixLength }, (_, i) => selectedPrefixLength + i + 1).map(length => (
+                          <option key={length} value={length}>/{length}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={allocationOwner}
+                        onChange={(e) => setAllocationOwner(e.target.value)}
+                        placeholder="Owner"
+                        className="flex-1 min-w-0 px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white placeholder-gray-400 text-sm focus:outline-none focus:border-blue-400"
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      value={allocationDescription}
+                      onChange={(e) => setAllocationDescription(e.target.value)}
+                      placeholder="Description"
+                      className="w-full px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white placeholder-gray-400 text-sm focus:outline-none focus:border-blue-400"
+                    />
+                    <button
+                      onClick={handleAllocateNextFree}
+                      className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Allocate Next Free /{allocationLength}
+                    </button>
+                  </div>
+                )}
+
+                {selectedPrefixLength < 128 && selected.children.length === 0 && (
+                  <div className="space-y-2 pt-2 border-t border-gray-600">
+                    <label className="block text-xs font-medium text-gray-400">Subdivide</label>
+                    <div className="flex gap-2">
+                      <select
+                        value={subdivideLength || selectedPrefixLength + 1}
+                        onChange={(e) => setSubdivideLength(e.target.value)}
+                        className="flex-1 px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+                      >
+                        {Array.from({ length: Math.min(8, 128 - selectedPrefixLength) }, (_, i) => selectedPrefixLength + i + 1).map(length => (
+                          <option key={length} value={length}>
+                            /{length} ({(1 << (length - selectedPrefixLength)).toLocaleString()} children)
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleSubdivide}
+                        className="px-3 py-2 bg-gray-600 hover:bg-gray-500 text-gray-300 rounded-lg transition-colors duration-200"
+                      >
+                        <Scissors className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleRemove}
+                  className="w-full px-4 py-2 bg-red-900/40 hover:bg-red-900/60 text-red-300 text-sm rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  {selected.children.length > 0 ? 'Remove with Children' : 'Remove'}
+                </button>
+              </>
+            ) : (
+              <p className="text-sm text-gray-400">Select an allocation to edit, subdivide or allocate from it.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
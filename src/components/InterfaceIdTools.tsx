@@ -0,0 +1,104 @@
+import React, { useState, useMemo } from 'react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { EUI64 } from '../utils/eui64';
+import { Fingerprint, AlertCircle, Copy } from 'lucide-react';
+
+export const InterfaceIdTools: React.FC = () => {
+  const [prefix, setPrefix] = useState('2001:db8:1:2::/64');
+  const [mac, setMac] = useState('00:1b:63:84:45:e6');
+
+  const slaac = useMemo(() => {
+    const parsed = IPv6Parser.parse(prefix);
+    if (!parsed.isValid) {
+      return { error: parsed.error?.message ?? 'Invalid prefix' };
+    }
+    if (parsed.prefixLength !== 64) {
+      return { error: 'SLAAC requires a /64 prefix' };
+    }
+
+    const octets = EUI64.parseMac(mac);
+    if (!octets) {
+      return { error: 'MAC address must use colon, dash or Cisco dotted notation' };
+    }
+
+    const address = EUI64.buildSLAACAddress(IPv6Parser.toValue(parsed), mac);
+    const interfaceId = EUI64.toInterfaceId(octets).toString(16).padStart(16, '0');
+    return {
+      address: IPv6Parser.format(address),
+      interfaceId: interfaceId.match(/.{4}/g)!.join(':'),
+      info: EUI64.describeMac(octets)
+    };
+  }, [prefix, mac]);
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <Fingerprint className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">SLAAC Address from MAC (Modified EUI-64)</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {[
+            { label: 'Prefix (/64)', value: prefix, onChange: setPrefix, placeholder: 'e.g., 2001:db8:1:2::/64' },
+            { label: 'MAC Address', value: mac, onChange: setMac, placeholder: 'e.g., 00:1b:63:84:45:e6, 00-1B-63-84-45-E6 or 001b.6384.45e6' }
+          ].map(field => (
+            <div key={field.label}>
+              <label className="block text-sm font-medium text-gray-300 mb-2">{field.label}</label>
+              <input
+                type="text"
+                value={field.value}
+                onChange={(e) => field.onChange(e.target.value)}
+                placeholder={field.placeholder}
+                spellCheck={false}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-4 h-fit space-y-3">
+          {slaac.address ? (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">SLAAC Address</label>
+                <div className="flex items-center gap-2 p-3 bg-gray-600 rounded-lg">
+                  <code className="text-white text-sm flex-1 break-all">{slaac.address}</code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(slaac.address)}
+                    className="p-1 hover:bg-gray-500 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-300" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Interface ID</label>
+                  <code className="text-white">{slaac.interfaceId}</code>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Vendor</label>
+                  <div className="text-white">{slaac.info.vendor ?? 'Unknown'} ({slaac.info.oui})</div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">U/L Bit</label>
+                  <div className="text-white">{slaac.info.isUniversal ? 'Universal' : 'Local'}</div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">I/G Bit</label>
+                  <div className="text-white">{slaac.info.isGroup ? 'Group' : 'Individual'}</div>
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-red-400 text-sm flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {slaac.error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
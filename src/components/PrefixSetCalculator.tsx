@@ -0,0 +1,182 @@
+import React, { useState, useMemo } from 'react';
+import { IPv6PrefixSet } from '../utils/prefixSet';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { Combine, Upload, Copy, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+
+type SetOperation = 'union' | 'intersection' | 'aMinusB' | 'bMinusA';
+
+const parseList = (text: string) => text
+  .split('\n')
+  .map(line => line.trim())
+  .filter(line => line.length > 0);
+
+// A set operation over a partly parsed list would be silently wrong, so these block the result
+const getInvalidLines = (lines: string[]) => lines
+  .map(line => ({ line, parsed: IPv6Parser.parse(line) }))
+  .filter(({ parsed }) => !parsed.isValid)
+  .map(({ line, parsed }) => ({ line, error: parsed.error?.message ?? 'Invalid IPv6 prefix' }));
+
+export const PrefixSetCalculator: React.FC = () => {
+  const [listA, setListA] = useState('');
+  const [listB, setListB] = useState('');
+  const [operation, setOperation] = useState<SetOperation>('aMinusB');
+
+  const operations: { id: SetOperation; label: string; description: string }[] = [
+    { id: 'union', label: 'A ∪ B', description: 'Addresses in either list' },
+    { id: 'intersection', label: 'A ∩ B', description: 'Addresses in both lists' },
+    { id: 'aMinusB', label: 'A − B', description: 'What is left of A after removing B' },
+    { id: 'bMinusA', label: 'B − A', description: 'What is left of B after removing A' }
+  ];
+
+  const prefixesA = useMemo(() => parseList(listA), [listA]);
+  const prefixesB = useMemo(() => parseList(listB), [listB]);
+  const invalidA = useMemo(() => getInvalidLines(prefixesA), [prefixesA]);
+  const invalidB = useMemo(() => getInvalidLines(prefixesB), [prefixesB]);
+  const hasInvalidLines = invalidA.length > 0 || invalidB.length > 0;
+
+  const result = useMemo(() => {
+    if (hasInvalidLines) return [];
+    switch (operation) {
+      case 'union':
+        return IPv6PrefixSet.union(prefixesA, prefixesB);
+      case 'intersection':
+        return IPv6PrefixSet.intersection(prefixesA, prefixesB);
+      case 'aMinusB':
+        return IPv6PrefixSet.difference(prefixesA, prefixesB);
+      case 'bMinusA':
+        return IPv6PrefixSet.difference(prefixesB, prefixesA);
+    }
+  }, [operation, prefixesA, prefixesB, hasInvalidLines]);
+
+  const relations = useMemo(() => hasInvalidLines ? [] : [
+    { label: 'A contains B', value: prefixesB.length > 0 && IPv6PrefixSet.contains(prefixesA, prefixesB) },
+    { label: 'B contains A', value: prefixesA.length > 0 && IPv6PrefixSet.contains(prefixesB, prefixesA) },
+    { label: 'A overlaps B', value: IPv6PrefixSet.overlaps(prefixesA, prefixesB) }
+  ], [prefixesA, prefixesB, hasInvalidLines]);
+
+  const handleLoadSample = () => {
+    setListA('2001:db8::/32');
+    setListB('2001:db8::/48\n2001:db8:5::/48\n2001:db8:8000::/33');
+    setOperation('aMinusB');
+  };
+
+  const copyResult = () => {
+    navigator.clipboard.writeText(result.join('\n'));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <Combine className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Prefix Set Operations</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { label: 'List A', value: listA, onChange: setListA, invalid: invalidA },
+            { label: 'List B', value: listB, onChange: setListB, invalid: invalidB }
+          ].map(list => (
+            <div key={list.label}>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                {list.label} (one prefix per line)
+              </label>
+              <textarea
+                value={list.value}
+                onChange={(e) => list.onChange(e.target.value)}
+                placeholder="Enter IPv6 prefixes, one per line..."
+                rows={8}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+              />
+              {list.invalid.length > 0 && (
+                <div className="mt-2 bg-red-900/20 border border-red-500/30 rounded-lg p-4">
+                  <p className="text-red-300 text-sm flex items-center gap-2 mb-2">
+                    <AlertCircle className="w-4 h-4" />
+                    {list.invalid.length} invalid {list.invalid.length === 1 ? 'entry' : 'entries'} in {list.label}
+                  </p>
+                  <ul className="text-xs text-red-200 space-y-1">
+                    {list.invalid.map((entry, index) => (
+                      <li key={index}>
+                        <span className="font-mono">{entry.line}</span> — {entry.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={handleLoadSample}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Load Sample
+          </button>
+          {operations.map(op => (
+            <button
+              key={op.id}
+              onClick={() => setOperation(op.id)}
+              title={op.description}
+              className={`px-4 py-2 text-sm rounded-lg font-mono transition-colors duration-200 ${
+                operation === op.id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              {op.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {relations.map(relation => (
+            <span
+              key={relation.label}
+              className={`px-2 py-1 text-xs rounded flex items-center gap-1 ${
+                relation.value ? 'bg-green-900/30 text-green-300' : 'bg-gray-700 text-gray-400'
+              }`}
+            >
+              {relation.value ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+              {relation.label}
+            </span>
+          ))}
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <h3 className="text-white font-medium">
+                Result: {operations.find(op => op.id === operation)?.label}
+              </h3>
+              <p className="text-xs text-gray-400">
+                {operations.find(op => op.id === operation)?.description} · {result.length} prefixes
+              </p>
+            </div>
+            <button
+              onClick={copyResult}
+              disabled={result.length === 0}
+              className="px-3 py-2 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+          </div>
+          {hasInvalidLines ? (
+            <p className="text-sm text-red-300">Fix the invalid entries above to compute the result.</p>
+          ) : result.length > 0 ? (
+            <ul className="font-mono text-sm text-blue-300 grid grid-cols-1 md:grid-cols-2 gap-1 max-h-80 overflow-y-auto">
+              {result.map(prefix => (
+                <li key={prefix}>{prefix}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">The resulting set is empty.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
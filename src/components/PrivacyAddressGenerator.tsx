@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { InterfaceIdGenerator, MAX_DAD_COUNTER } from '../utils/interfaceIdGenerator';
+import { IPv6Value } from '../utils/ipv6Value';
+import { IPv6Address } from '../types/ipv6';
+import { AddressDetails } from './AddressDetails';
+import { KeyRound, RefreshCw, AlertCircle } from 'lucide-react';
+
+type GeneratorMode = 'stable' | 'temporary';
+
+export const PrivacyAddressGenerator: React.FC = () => {
+  const [mode, setMode] = useState<GeneratorMode>('stable');
+  const [prefix, setPrefix] = useState('2001:db8:1:2::/64');
+  const [interfaceName, setInterfaceName] = useState('eth0');
+  const [networkId, setNetworkId] = useState('');
+  const [dadCounter, setDadCounter] = useState('0');
+  const [secretKey, setSecretKey] = useState('');
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<{ address?: IPv6Address; error?: string }>({});
+
+  useEffect(() => {
+    const parsedPrefix = IPv6Parser.parse(prefix);
+    if (!parsedPrefix.isValid) {
+      setResult({ error: parsedPrefix.error?.message ?? 'Invalid prefix' });
+      return;
+    }
+    if (!parsedPrefix.isSLAACCompatible) {
+      setResult({ error: 'Privacy interface identifiers need a /64 prefix' });
+      return;
+    }
+    if (mode === 'stable' && !/^\d+$/.test(dadCounter)) {
+      setResult({ error: 'DAD counter must be a non-negative integer' });
+      return;
+    }
+    if (mode === 'stable' && BigInt(dadCounter) > BigInt(MAX_DAD_COUNTER)) {
+      setResult({ error: `DAD counter must be at most ${MAX_DAD_COUNTER} (32 bits)` });
+      return;
+    }
+
+    const prefixValue = IPv6Parser.toValue(parsedPrefix);
+    const toAddress = (value: IPv6Value) =>
+      IPv6Parser.parse(`${IPv6Parser.format(value)}/64`);
+
+    if (mode === 'temporary') {
+      setResult({ address: toAddress(InterfaceIdGenerator.temporary(prefixValue)) });
+      return;
+    }
+
+    let cancelled = false;
+    InterfaceIdGenerator.stablePrivacy({
+      prefix: prefixValue.toHextets(),
+      interfaceName,
+      networkId,
+      dadCounter: Number(dadCounter),
+      secretKey
+    })
+      .then(value => {
+        if (!cancelled) setResult({ address: toAddress(value) });
+      })
+      .catch(error => {
+        if (!cancelled) setResult({ error: (error as Error).message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, prefix, interfaceName, networkId, dadCounter, secretKey, generation]);
+
+  const fields = mode === 'stable'
+    ? [
+        { label: 'Interface Name (Net_Iface)', value: interfaceName, onChange: setInterfaceName, placeholder: 'e.g., eth0' },
+        { label: 'Network ID (optional)', value: networkId, onChange: setNetworkId, placeholder: 'e.g., SSID or IEEE 802.1X identity' },
+        { label: 'DAD Counter', value: dadCounter, onChange: setDadCounter, placeholder: '0' },
+        { label: 'Secret Key', value: secretKey, onChange: setSecretKey, placeholder: 'Per-host secret' }
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <div className="flex items-center gap-3 mb-6">
+          <KeyRound className="w-6 h-6 text-blue-400" />
+          <h2 className="text-xl font-semibold text-white">Privacy Interface ID Generator</h2>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {[
+              { id: 'stable' as const, label: 'Stable (RFC 7217)' },
+              { id: 'temporary' as const, label: 'Temporary (RFC 8981)' }
+            ].map(option => (
+              <button
+                key={option.id}
+                onClick={() => setMode(option.id)}
+                className={`px-4 py-2 text-sm rounded-lg transition-colors duration-200 ${
+                  mode === option.id
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            {mode === 'temporary' && (
+              <button
+                onClick={() => setGeneration(generation + 1)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Regenerate
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Prefix (/64)', value: prefix, onChange: setPrefix, placeholder: 'e.g., 2001:db8:1:2::/64' },
+              ...fields
+            ].map(field => (
+              <div key={field.label}>
+                <label className="block text-sm font-medium text-gray-300 mb-2">{field.label}</label>
+                <input
+                  type="text"
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  placeholder={field.placeholder}
+                  spellCheck={false}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          {result.error && (
+            <p className="text-red-400 text-sm flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {result.error}
+            </p>
+          )}
+          <p className="text-xs text-gray-400">
+            Identifiers in the reserved ranges of RFC 5453 are never produced. Stable IDs are computed locally with SHA-256.
+          </p>
+        </div>
+      </div>
+
+      {result.address && <AddressDetails address={result.address} />}
+    </div>
+  );
+};
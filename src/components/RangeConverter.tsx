@@ -0,0 +1,161 @@
+import React, { useState, useMemo } from 'react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { IPv6Subnetting } from '../utils/subnetting';
+import { ArrowLeftRight, AlertCircle, Copy } from 'lucide-react';
+
+export const RangeConverter: React.FC = () => {
+  const [rangeInput, setRangeInput] = useState('2001:db8::100 - 2001:db8::1ff:ffff');
+  const [prefixInput, setPrefixInput] = useState('2001:db8::/48\n2001:db8:1::/48\n2001:db8:3::/48');
+
+  const range = useMemo(() => IPv6Parser.parseRange(rangeInput), [rangeInput]);
+  const rangePrefixes = useMemo(
+    () => (range.isValid ? IPv6Subnetting.decomposeRange(range) : []),
+    [range]
+  );
+
+  const prefixLines = useMemo(() => prefixInput
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0), [prefixInput]);
+
+  const invalidPrefixLines = useMemo(() => prefixLines
+    .map(line => ({ line, parsed: IPv6Parser.parse(line) }))
+    .filter(({ parsed }) => !parsed.isValid)
+    .map(({ line, parsed }) => ({ line, error: parsed.error?.message ?? 'Invalid IPv6 prefix' })), [prefixLines]);
+
+  // A range computed without the invalid lines could be smaller than the input means
+  const prefixListRange = useMemo(
+    () => (invalidPrefixLines.length === 0 ? IPv6Subnetting.getPrefixListRange(prefixLines) : null),
+    [prefixLines, invalidPrefixLines]
+  );
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <ArrowLeftRight className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Range ⇄ CIDR</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Address Range (start - end or start + count)
+            </label>
+            <input
+              type="text"
+              value={rangeInput}
+              onChange={(e) => setRangeInput(e.target.value)}
+              placeholder="e.g., 2001:db8::100 - 2001:db8::1ff or 2001:db8:: + 256"
+              spellCheck={false}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+            />
+            {!range.isValid && rangeInput.trim() && range.error && (
+              <p className="text-red-400 text-sm mt-2 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {range.error.message}
+                {range.error.suggestion && <span className="text-gray-400">— {range.error.suggestion}</span>}
+              </p>
+            )}
+          </div>
+
+          {range.isValid && (
+            <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">First Address</label>
+                  <code className="text-white break-all">{range.firstAddress}</code>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Last Address</label>
+                  <code className="text-white break-all">{range.lastAddress}</code>
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Size</label>
+                  <div className="text-white font-mono break-all">{range.size.toLocaleString()} addresses</div>
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-xs font-medium text-gray-400">
+                    Minimal Prefix List ({rangePrefixes.length})
+                  </label>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(rangePrefixes.join('\n'))}
+                    className="p-1 hover:bg-gray-600 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-400" />
+                  </button>
+                </div>
+                <ul className="font-mono text-sm text-blue-300 space-y-1 max-h-64 overflow-y-auto">
+                  {rangePrefixes.map(prefix => (
+                    <li key={prefix}>{prefix}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Prefix List (one per line)
+            </label>
+            <textarea
+              value={prefixInput}
+              onChange={(e) => setPrefixInput(e.target.value)}
+              placeholder="Enter IPv6 prefixes, one per line..."
+              rows={6}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+            />
+          </div>
+
+          {invalidPrefixLines.length > 0 && (
+            <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4">
+              <p className="text-red-300 text-sm flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4" />
+                Fix {invalidPrefixLines.length} invalid {invalidPrefixLines.length === 1 ? 'entry' : 'entries'} to see the range
+              </p>
+              <ul className="text-xs text-red-200 space-y-1">
+                {invalidPrefixLines.map((entry, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{entry.line}</span> — {entry.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {prefixListRange && (
+            <div className="bg-gray-700 rounded-lg p-4 grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">First Address</label>
+                <code className="text-white break-all">{prefixListRange.firstAddress}</code>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Last Address</label>
+                <code className="text-white break-all">{prefixListRange.lastAddress}</code>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Span Size</label>
+                <div className="text-white font-mono break-all">{prefixListRange.size.toLocaleString()}</div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Covered Addresses</label>
+                <div className="text-white font-mono break-all">{prefixListRange.coveredAddresses.toLocaleString()}</div>
+              </div>
+              <div className="col-span-2">
+                <span className={`px-2 py-1 text-xs rounded ${
+                  prefixListRange.isContiguous ? 'bg-green-900/30 text-green-300' : 'bg-yellow-900/30 text-yellow-300'
+                }`}>
+                  {prefixListRange.isContiguous ? 'Contiguous range' : 'Range has gaps'}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { IPv6Subnetting } from '../utils/subnetting';
+import { Layers, Upload, Copy, AlertCircle, CheckCircle } from 'lucide-react';
+
+export const RouteSummarizer: React.FC = () => {
+  const [input, setInput] = useState('');
+
+  const sampleData = `2001:db8:0:1::/64
+2001:db8:0:2::/64
+2001:db8:0:3::/64
+2001:db8::/64
+2001:db8:0:2::/64
+2001:db8:1::/48
+2001:db8:2::/48`;
+
+  const lines = useMemo(() => input
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0), [input]);
+
+  const invalidLines = useMemo(
+    () => lines.filter(line => !IPv6Parser.parse(line).isValid),
+    [lines]
+  );
+
+  const summarized = useMemo(() => IPv6Subnetting.summarizeRoutes(lines), [lines]);
+  const supernet = useMemo(() => IPv6Subnetting.findCoveringSupernet(lines), [lines]);
+
+  const copySummary = () => {
+    navigator.clipboard.writeText(summarized.join('\n'));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <Layers className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Route Summarization</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Prefixes (one per line)
+            </label>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Enter IPv6 prefixes, one per line..."
+              rows={10}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+            />
+          </div>
+          <button
+            onClick={() => setInput(sampleData)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Load Sample
+          </button>
+          {invalidLines.length > 0 && (
+            <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4">
+              <p className="text-red-300 text-sm flex items-center gap-2 mb-2">
+                <AlertCircle className="w-4 h-4" />
+                {invalidLines.length} invalid {invalidLines.length === 1 ? 'entry' : 'entries'} ignored
+              </p>
+              <ul className="font-mono text-xs text-red-200 space-y-1">
+                {invalidLines.map((line, index) => (
+                  <li key={index}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="bg-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="text-white font-medium">Exact Aggregate</h3>
+                <p className="text-xs text-gray-400">
+                  {lines.length - invalidLines.length} input prefixes → {summarized.length} prefixes, no address space added
+                </p>
+              </div>
+              <button
+                onClick={copySummary}
+                disabled={summarized.length === 0}
+                className="px-3 py-2 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+              >
+                <Copy className="w-4 h-4" />
+                Copy
+              </button>
+            </div>
+            {summarized.length > 0 ? (
+              <ul className="font-mono text-sm text-blue-300 space-y-1 max-h-64 overflow-y-auto">
+                {summarized.map(prefix => (
+                  <li key={prefix} className="flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                    {prefix}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-400">Enter prefixes to aggregate.</p>
+            )}
+          </div>
+
+          {supernet && (
+            <div className="bg-gray-700 rounded-lg p-4">
+              <h3 className="text-white font-medium mb-3">Single Covering Supernet</h3>
+              <div className="p-3 bg-gray-600 rounded-lg mb-3">
+                <code className="text-white text-sm">{supernet.supernet}</code>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Addresses in Supernet</label>
+                  <div className="text-white font-mono break-all">{supernet.totalAddresses.toLocaleString()}</div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Covered by Input</label>
+                  <div className="text-white font-mono break-all">{supernet.coveredAddresses.toLocaleString()}</div>
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Extra Space Included</label>
+                  <div className={`font-mono break-all ${supernet.extraAddresses === 0n ? 'text-green-300' : 'text-yellow-300'}`}>
+                    {supernet.extraAddresses.toLocaleString()} ({supernet.extraPercentage}% of the supernet)
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,21 @@
-import React, { useState, useMemo } from 'react';
-import { IPv6Address, SubnetPlan } from '../types/ipv6';
+import React, { useState, useMemo, useEffect } from 'react';
+import { IPv6Address, AllocationStrategy } from '../types/ipv6';
 import { IPv6Subnetting } from '../utils/subnetting';
-import { Network, Split, ChevronDown, ChevronRight, Copy, Download } from 'lucide-react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { IPv6Anycast } from '../utils/anycast';
+import {
+  Network,
+  Copy,
+  Download,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Search
+} from 'lucide-react';
+
+// Larger plans are exported one page at a time to keep the file and the browser manageable
+const MAX_EXPORT_SUBNETS = 65536;
 
 interface SubnettingToolProps {
   address: IPv6Address;
@@ -9,27 +23,129 @@ interface SubnettingToolProps {
 
 export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
   const [targetPrefix, setTargetPrefix] = useState(64);
-  const [subnetCount, setSubnetCount] = useState(8);
-  const [showAll, setShowAll] = useState(false);
-  const [expandedSubnets, setExpandedSubnets] = useState<Set<number>>(new Set());
+  const [pageSize, setPageSize] = useState(16);
+  const [page, setPage] = useState(0n);
+  const [jumpIndex, setJumpIndex] = useState('');
+  const [jumpError, setJumpError] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState<bigint | null>(null);
+  const [expandedSubnets, setExpandedSubnets] = useState<Set<bigint>>(new Set());
+  const [strategy, setStrategy] = useState(AllocationStrategy.Rightmost);
+  const [growthBits, setGrowthBits] = useState(0);
+  const [requiredCount, setRequiredCount] = useState('');
+
+  // A shorter target leaves fewer bits to reserve
+  const effectiveGrowthBits = Math.min(growthBits, Math.max(0, targetPrefix - address.prefixLength));
+  const allocationOptions = useMemo(
+    () => ({ strategy, growthBits: effectiveGrowthBits }),
+    [strategy, effectiveGrowthBits]
+  );
 
-  const subnetPlan = useMemo(() => {
+  useEffect(() => {
+    setPage(0n);
+    setHighlightedIndex(null);
+  }, [address.networkAddress]);
+
+  const subnetPage = useMemo(() => {
     if (!address.isValid || targetPrefix <= address.prefixLength) {
       return null;
     }
 
     try {
-      return IPv6Subnetting.calculateSubnets(
+      const totalSubnets = IPv6Subnetting.countSubnets(address.networkAddress, targetPrefix, allocationOptions);
+      const totalPages = (totalSubnets + BigInt(pageSize) - 1n) / BigInt(pageSize);
+      return IPv6Subnetting.getSubnetPage(
         address.networkAddress, 
         targetPrefix, 
-        showAll ? undefined : subnetCount
+        page < totalPages ? page : totalPages - 1n,
+        pageSize,
+        allocationOptions
       );
-    } catch (error) {
+    } catch {
       return null;
     }
-  }, [address, targetPrefix, subnetCount, showAll]);
+  }, [address, targetPrefix, pageSize, page, allocationOptions]);
+
+  const nibbleInfo = IPv6Subnetting.getNibbleInfo(address.prefixLength, targetPrefix);
+
+  const recommendation = useMemo(() => {
+    if (!/^\d+$/.test(requiredCount.trim())) {
+      return requiredCount.trim() ? { error: 'Enter a whole number of subnets' } : {};
+    }
+    try {
+      return { result: IPv6Subnetting.recommendPrefixLength(address.prefixLength, BigInt(requiredCount.trim())) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [address.prefixLength, requiredCount]);
+
+  // Hex digits of the subnet ID, i.e. the nibbles that change from one subnet to the next
+  const renderNetwork = (network: string) => {
+    const [addressPart, length] = network.split('/');
+    let digit = 0;
+    return (
+      <>
+        {addressPart.split('').map((character, position) => {
+          const isVariable = character !== ':' && digit >= nibbleInfo.subnetDigitStart && digit < nibbleInfo.subnetDigitEnd;
+          if (character !== ':') digit++;
+          return (
+            <span key={position} className={isVariable ? 'text-yellow-300 font-semibold' : ''}>
+              {character}
+            </span>
+          );
+        })}
+        /{length}
+      </>
+    );
+  };
+
+  // The last address is reserved subnet anycast only outside EUI-64 format space (RFC 2526)
+  const hasSubnetRouterAnycast = targetPrefix < 127;
+  const isLastAddressReserved = address.isValid && targetPrefix <= 121 &&
+    !IPv6Anycast.usesEui64InterfaceIds(IPv6Parser.toValue(address));
+
+  const getReservedAddresses = (network: string) =>
+    IPv6Anycast.getReservedAddresses(IPv6Parser.toValue(IPv6Parser.parse(network)), targetPrefix);
+
+  const handleTargetPrefixChange = (prefixLength: number) => {
+    setTargetPrefix(prefixLength);
+    setPage(0n);
+    setHighlightedIndex(null);
+  };
+
+  const handleAllocationChange = (nextStrategy: AllocationStrategy, nextGrowthBits: number) => {
+    setStrategy(nextStrategy);
+    setGrowthBits(nextGrowthBits);
+    setPage(0n);
+    setHighlightedIndex(null);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    // Keep the first subnet of the current page in view
+    const firstIndex = subnetPage ? subnetPage.firstIndex : 0n;
+    setPageSize(size);
+    setPage(firstIndex / BigInt(size));
+  };
+
+  const handleJump = () => {
+    if (!subnetPage) return;
+
+    if (!/^\d+$/.test(jumpIndex.trim())) {
+      setJumpError('Enter a decimal subnet index');
+      return;
+    }
 
-  const toggleSubnetDetails = (index: number) => {
+    const index = BigInt(jumpIndex.trim());
+    if (index >= subnetPage.totalSubnets) {
+      setJumpError(`Index must be below ${subnetPage.totalSubnets.toLocaleString()}`);
+      return;
+    }
+
+    setJumpError(null);
+    setHighlightedIndex(index);
+    setPage(index / BigInt(pageSize));
+  };
+
+  const toggleSubnetDetails = (index: bigint) => {
     const newExpanded = new Set(expandedSubnets);
     if (newExpanded.has(index)) {
       newExpanded.delete(index);
@@ -40,30 +156,51 @@ export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
   };
 
   const copySubnetPlan = () => {
-    if (!subnetPlan) return;
+    if (!subnetPage) return;
     
-    const text = subnetPlan.subnets
+    const text = subnetPage.subnets
       .map(subnet => `${subnet.network} - ${subnet.firstAddress} to ${subnet.lastAddress}`)
       .join('\n');
     
     navigator.clipboard.writeText(text);
   };
 
+  const canExportAll = subnetPage !== null && subnetPage.totalSubnets <= BigInt(MAX_EXPORT_SUBNETS);
+
   const exportSubnetPlan = () => {
-    if (!subnetPlan) return;
+    if (!subnetPage) return;
     
-    const data = {
-      originalPrefix: subnetPlan.originalPrefix,
-      targetPrefixLength: subnetPlan.targetPrefixLength,
-      totalSubnets: subnetPlan.totalSubnets,
-      subnets: subnetPlan.subnets
+    const plan = {
+      originalPrefix: subnetPage.originalPrefix,
+      targetPrefixLength: subnetPage.targetPrefixLength,
+      strategy: subnetPage.strategy,
+      growthBits: subnetPage.growthBits,
+      totalSubnets: subnetPage.totalSubnets
     };
+    const data = canExportAll
+      ? {
+        ...plan,
+        subnets: IPv6Subnetting.calculateSubnets(
+          address.networkAddress,
+          targetPrefix,
+          Number(subnetPage.totalSubnets),
+          allocationOptions
+        ).subnets
+      }
+      : {
+        ...plan,
+        page: subnetPage.page,
+        pageSize: subnetPage.pageSize,
+        firstIndex: subnetPage.firstIndex,
+        subnets: subnetPage.subnets
+      };
     
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const json = JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+    const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'ipv6-subnet-plan.json';
+    a.download = canExportAll ? 'ipv6-subnet-plan.json' : `ipv6-subnet-plan-page-${subnetPage.page + 1n}.json`;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -87,19 +224,20 @@ export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
         <h2 className="text-xl font-semibold text-white">Subnetting Tool</h2>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
             Target Prefix Length
           </label>
           <select
             value={targetPrefix}
-            onChange={(e) => setTargetPrefix(parseInt(e.target.value))}
+            onChange={(e) => handleTargetPrefixChange(parseInt(e.target.value))}
             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-400"
           >
             {Array.from({ length: 128 - address.prefixLength }, (_, i) => (
               <option key={i} value={address.prefixLength + i + 1}>
                 /{address.prefixLength + i + 1}
+                {IPv6Subnetting.isNibbleAligned(address.prefixLength + i + 1) ? ' (nibble)' : ''}
               </option>
             ))}
           </select>
@@ -107,45 +245,134 @@ export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
         
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
-            Number of Subnets
+            Subnets per Page
           </label>
           <select
-            value={subnetCount}
-            onChange={(e) => setSubnetCount(parseInt(e.target.value))}
-            disabled={showAll}
-            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-400 disabled:opacity-50"
+            value={pageSize}
+            onChange={(e) => handlePageSizeChange(parseInt(e.target.value))}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-400"
           >
-            <option value={4}>4</option>
             <option value={8}>8</option>
             <option value={16}>16</option>
             <option value={32}>32</option>
             <option value={64}>64</option>
+            <option value={128}>128</option>
           </select>
         </div>
 
-        <div className="flex items-end">
-          <label className="flex items-center space-x-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Allocation Order (RFC 3531)
+          </label>
+          <select
+            value={strategy}
+            onChange={(e) => handleAllocationChange(e.target.value as AllocationStrategy, growthBits)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-400"
+          >
+            <option value={AllocationStrategy.Rightmost}>Rightmost (sequential)</option>
+            <option value={AllocationStrategy.Leftmost}>Leftmost (bit-reversed)</option>
+            <option value={AllocationStrategy.Centermost}>Centermost</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Growth Reserve
+          </label>
+          <select
+            value={effectiveGrowthBits}
+            onChange={(e) => handleAllocationChange(strategy, parseInt(e.target.value))}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-blue-400"
+          >
+            {Array.from({ length: Math.min(8, targetPrefix - address.prefixLength) + 1 }, (_, bits) => (
+              <option key={bits} value={bits}>
+                {bits === 0 ? 'None' : `${bits} bit${bits > 1 ? 's' : ''} (grow to /${targetPrefix - bits})`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Jump to Subnet Index
+          </label>
+          <div className="flex gap-2">
             <input
-              type="checkbox"
-              checked={showAll}
-              onChange={(e) => setShowAll(e.target.checked)}
-              className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+              type="text"
+              value={jumpIndex}
+              onChange={(e) => setJumpIndex(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJump()}
+              placeholder="e.g., 4294967295"
+              className="flex-1 min-w-0 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono text-sm placeholder-gray-500 focus:outline-none focus:border-blue-400"
             />
-            <span className="text-sm text-gray-300">Show all subnets</span>
-          </label>
+            <button
+              onClick={handleJump}
+              disabled={!subnetPage}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 rounded-lg transition-colors duration-200"
+            >
+              <Search className="w-4 h-4" />
+            </button>
+          </div>
+          {jumpError && <p className="text-red-400 text-xs mt-1">{jumpError}</p>}
         </div>
       </div>
 
-      {subnetPlan && (
+      <div className="bg-gray-700 rounded-lg p-4 mb-6 flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-300">Subnets Needed</label>
+          <input
+            type="text"
+            value={requiredCount}
+            onChange={(e) => setRequiredCount(e.target.value)}
+            placeholder="e.g., 200"
+            className="w-32 px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white font-mono text-sm placeholder-gray-400 focus:outline-none focus:border-blue-400"
+          />
+        </div>
+        {recommendation.error && <p className="text-red-400 text-sm">{recommendation.error}</p>}
+        {recommendation.result && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              onClick={() => handleTargetPrefixChange(recommendation.result.prefixLength)}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded-lg transition-colors duration-200"
+            >
+              Use /{recommendation.result.prefixLength}
+            </button>
+            {recommendation.result.nibblePrefixLength !== recommendation.result.prefixLength ? (
+              <>
+                <span className="text-gray-400">
+                  /{recommendation.result.prefixLength} is off a nibble boundary; rounding to /{recommendation.result.nibblePrefixLength} gives {recommendation.result.nibbleSubnetCount.toLocaleString()} subnets
+                </span>
+                <button
+                  onClick={() => handleTargetPrefixChange(recommendation.result.nibblePrefixLength)}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors duration-200"
+                >
+                  Round to /{recommendation.result.nibblePrefixLength}
+                </button>
+              </>
+            ) : (
+              <span className="text-green-400">/{recommendation.result.prefixLength} is nibble-aligned</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {subnetPage && (
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="text-white">
               <p className="font-medium">
-                Subnetting {subnetPlan.originalPrefix} into /{targetPrefix} subnets
+                Subnetting {subnetPage.originalPrefix} into /{targetPrefix} subnets
               </p>
               <p className="text-sm text-gray-400">
-                Total possible subnets: {subnetPlan.totalSubnets.toLocaleString()}
-                {!showAll && ` (showing ${subnetPlan.subnets.length})`}
+                Total possible subnets: {subnetPage.totalSubnets.toLocaleString()}
+                {subnetPage.growthBits > 0 && ` (each reserving room to grow to /${targetPrefix - subnetPage.growthBits})`}
+                {` (showing #${subnetPage.firstIndex.toLocaleString()}–#${(subnetPage.firstIndex + BigInt(subnetPage.subnets.length) - 1n).toLocaleString()})`}
+              </p>
+              <p className="text-sm text-gray-400">
+                {nibbleInfo.fixedDigits} hex digits fixed{nibbleInfo.partialDigits > 0 && ', 1 split by the prefix'}, {nibbleInfo.variableDigits} variable
+                {nibbleInfo.isNibbleAligned
+                  ? ' — nibble-aligned'
+                  : <span className="text-yellow-400"> — /{targetPrefix} is not nibble-aligned</span>}
               </p>
             </div>
             <div className="flex gap-2">
@@ -154,40 +381,68 @@ export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
                 className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
               >
                 <Copy className="w-4 h-4" />
-                Copy
+                Copy Page
               </button>
               <button
                 onClick={exportSubnetPlan}
+                title={canExportAll
+                  ? 'Export every subnet as JSON'
+                  : `Plans over ${MAX_EXPORT_SUBNETS.toLocaleString()} subnets are exported one page at a time`}
                 className="px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
               >
                 <Download className="w-4 h-4" />
-                Export
+                {canExportAll ? 'Export All' : 'Export This Page'}
               </button>
             </div>
           </div>
 
           <div className="bg-gray-700 rounded-lg overflow-hidden">
-            <div className="grid grid-cols-4 gap-4 px-4 py-3 bg-gray-600 text-sm font-medium text-gray-300">
+            <div className="grid grid-cols-5 gap-4 px-4 py-3 bg-gray-600 text-sm font-medium text-gray-300">
               <div>Network</div>
               <div>First Address</div>
               <div>Last Address</div>
               <div>Total Hosts</div>
+              <div title="Shortest prefix the subnet can grow to while every subnet up to this page is allocated">Can Grow To</div>
             </div>
             
             <div className="divide-y divide-gray-600">
-              {subnetPlan.subnets.map((subnet, index) => (
-                <div key={index}>
+              {subnetPage.subnets.map((subnet) => (
+                <div key={subnet.index.toString()}>
                   <button
-                    onClick={() => toggleSubnetDetails(index)}
-                    className="w-full grid grid-cols-4 gap-4 px-4 py-3 text-sm text-left hover:bg-gray-600 transition-colors duration-200"
+                    onClick={() => toggleSubnetDetails(subnet.index)}
+                    className={`w-full grid grid-cols-5 gap-4 px-4 py-3 text-sm text-left hover:bg-gray-600 transition-colors duration-200 ${
+                      subnet.index === highlightedIndex ? 'bg-blue-900/30' : ''
+                    }`}
                   >
-                    <div className="font-mono text-blue-300">{subnet.network}</div>
-                    <div className="font-mono text-white">{subnet.firstAddress}</div>
-                    <div className="font-mono text-white">{subnet.lastAddress}</div>
+                    <div className="font-mono text-blue-300">
+                      <span className="text-gray-500 mr-2">#{subnet.index.toString()}</span>
+                      {renderNetwork(subnet.network)}
+                    </div>
+                    <div className="font-mono text-white">
+                      {subnet.firstAddress}
+                      {hasSubnetRouterAnycast && (
+                        <span title="Subnet-Router anycast (RFC 4291)" className="ml-2 px-2 py-0.5 bg-amber-900/30 text-amber-300 text-xs rounded">
+                          anycast
+                        </span>
+                      )}
+                    </div>
+                    <div className="font-mono text-white">
+                      {subnet.lastAddress}
+                      {isLastAddressReserved && (
+                        <span title="Reserved subnet anycast (RFC 2526)" className="ml-2 px-2 py-0.5 bg-amber-900/30 text-amber-300 text-xs rounded">
+                          reserved
+                        </span>
+                      )}
+                    </div>
                     <div className="text-gray-300">{subnet.totalHosts}</div>
+                    <div className="font-mono text-gray-300">
+                      {subnet.maxGrowthPrefixLength !== undefined && subnet.maxGrowthPrefixLength < targetPrefix
+                        ? `/${subnet.maxGrowthPrefixLength}`
+                        : '—'}
+                    </div>
                   </button>
                   
-                  {expandedSubnets.has(index) && (
+                  {expandedSubnets.has(subnet.index) && (
                     <div className="px-4 pb-3 bg-gray-750">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                         <div>
@@ -196,9 +451,40 @@ export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
                         </div>
                         <div>
                           <span className="text-gray-400">Usage: </span>
-                          <span className="text-gray-300">Network segment {index + 1}</span>
+                          <span className="text-gray-300">Network segment {(subnet.index + 1n).toLocaleString()}</span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Hex digits: </span>
+                          <span className="text-gray-300">
+                            {nibbleInfo.fixedDigits} fixed{nibbleInfo.partialDigits > 0 && ' + 1 partial'}, {nibbleInfo.variableDigits} variable
+                          </span>
                         </div>
                       </div>
+                      {(() => {
+                        const reserved = getReservedAddresses(subnet.network);
+                        const rows = [
+                          { label: 'Subnet-Router anycast', value: reserved.subnetRouter },
+                          {
+                            label: reserved.repeatsPerLink ? 'Reserved anycast (RFC 2526), in every /64' : 'Reserved anycast (RFC 2526)',
+                            value: reserved.reservedRangeStart && `${reserved.reservedRangeStart} – ${reserved.reservedRangeEnd}`
+                          },
+                          { label: 'Mobile IPv6 Home-Agents', value: reserved.homeAgents }
+                        ].filter(row => row.value);
+
+                        return rows.length > 0 && (
+                          <div className="mt-3">
+                            <p className="text-xs font-medium text-amber-300 mb-1">Do not assign to hosts</p>
+                            <div className="grid grid-cols-1 gap-1 text-sm">
+                              {rows.map(row => (
+                                <div key={row.label}>
+                                  <span className="text-gray-400">{row.label}: </span>
+                                  <span className="font-mono text-white">{row.value}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })()}
                     </div>
                   )}
                 </div>
@@ -206,11 +492,29 @@ export const SubnettingTool: React.FC<SubnettingToolProps> = ({ address }) => {
             </div>
           </div>
 
-          {subnetPlan.subnets.length >= 100 && (
-            <p className="text-sm text-gray-400 text-center">
-              Large subnet plans may take a moment to render completely.
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-400">
+              Page {(subnetPage.page + 1n).toLocaleString()} of {subnetPage.totalPages.toLocaleString()}
             </p>
-          )}
+            <div className="flex gap-2">
+              {[
+                { label: 'First page', icon: ChevronsLeft, target: 0n, disabled: subnetPage.page === 0n },
+                { label: 'Previous page', icon: ChevronLeft, target: subnetPage.page - 1n, disabled: subnetPage.page === 0n },
+                { label: 'Next page', icon: ChevronRight, target: subnetPage.page + 1n, disabled: subnetPage.page + 1n >= subnetPage.totalPages },
+                { label: 'Last page', icon: ChevronsRight, target: subnetPage.totalPages - 1n, disabled: subnetPage.page + 1n >= subnetPage.totalPages }
+              ].map(({ label, icon: Icon, target, disabled }) => (
+                <button
+                  key={label}
+                  title={label}
+                  onClick={() => setPage(target)}
+                  disabled={disabled}
+                  className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-gray-300 rounded-lg transition-colors duration-200"
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       )}
 
@@ -0,0 +1,257 @@
+import React, { useState, useMemo } from 'react';
+import { BitFieldTemplate, BitField, IPv6Address } from '../types/ipv6';
+import { BitFieldTemplates, FIELD_COLORS } from '../utils/bitFieldTemplate';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { Ruler, Plus, Trash2, Copy, RotateCcw, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+
+interface TemplateDesignerProps {
+  template: BitFieldTemplate;
+  onTemplateChange: (template: BitFieldTemplate) => void;
+  address: IPv6Address;
+  saveError?: string | null;
+}
+
+export const TemplateDesigner: React.FC<TemplateDesignerProps> = ({ template, onTemplateChange, address, saveError }) => {
+  const [values, setValues] = useState<string[]>([]);
+
+  const errors = useMemo(() => BitFieldTemplates.validate(template), [template]);
+  const layout = useMemo(() => (errors.length === 0 ? BitFieldTemplates.getLayout(template) : []), [errors, template]);
+  const parentPrefixLength = IPv6Parser.parse(template.parentPrefix).prefixLength;
+  const totalWidth = BitFieldTemplates.getTotalWidth(template);
+
+  const encoded = useMemo(() => {
+    if (errors.length > 0 || values.every(value => value.trim() === '')) {
+      return {};
+    }
+    try {
+      return { result: BitFieldTemplates.encode(template, values) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [errors, template, values]);
+
+  const decoded = useMemo(
+    () => (address.isValid
+      ? BitFieldTemplates.decode(template, IPv6Parser.toValue(address), address.prefixLength)
+      : null),
+    [template, address]
+  );
+
+  const updateField = (index: number, changes: Partial<BitField>) => {
+    onTemplateChange({
+      ...template,
+      fields: template.fields.map((field, fieldIndex) => (fieldIndex === index ? { ...field, ...changes } : field))
+    });
+  };
+
+  const addField = () => {
+    onTemplateChange({
+      ...template,
+      fields: [...template.fields, { name: `Field ${template.fields.length + 1}`, width: 4, allowedValues: '' }]
+    });
+  };
+
+  const removeField = (index: number) => {
+    onTemplateChange({ ...template, fields: template.fields.filter((_, fieldIndex) => fieldIndex !== index) });
+    setValues(values.filter((_, valueIndex) => valueIndex !== index));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <Ruler className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">Addressing Template</h2>
+      </div>
+
+      <div className="space-y-6">
+        {saveError && (
+          <p className="text-red-400 text-sm flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {saveError}
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { label: 'Template Name', value: template.name, onChange: (name: string) => onTemplateChange({ ...template, name }), placeholder: 'e.g., Campus /64' },
+            { label: 'Parent Prefix', value: template.parentPrefix, onChange: (parentPrefix: string) => onTemplateChange({ ...template, parentPrefix }), placeholder: 'e.g., 2001:db8::/48' }
+          ].map(input => (
+            <div key={input.label}>
+              <label className="block text-sm font-medium text-gray-300 mb-2">{input.label}</label>
+              <input
+                type="text"
+                value={input.value}
+                onChange={(e) => input.onChange(e.target.value)}
+                placeholder={input.placeholder}
+                spellCheck={false}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-400">
+            <div className="col-span-4">Field</div>
+            <div className="col-span-2">Bits</div>
+            <div className="col-span-2">Position</div>
+            <div className="col-span-3">Allowed Values</div>
+          </div>
+          {template.fields.map((field, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-4 flex items-center gap-2">
+                <span className={`w-3 h-3 rounded flex-shrink-0 ${FIELD_COLORS[index % FIELD_COLORS.length].swatch}`} />
+                <input
+                  type="text"
+                  value={field.name}
+                  onChange={(e) => updateField(index, { name: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+                />
+              </div>
+              <input
+                type="number"
+                min={1}
+                value={Number.isNaN(field.width) ? '' : field.width}
+                onChange={(e) => updateField(index, { width: parseInt(e.target.value, 10) })}
+                className="col-span-2 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-400"
+              />
+              <div className="col-span-2 text-sm font-mono text-gray-300">
+                {layout[index] ? `/${layout[index].offset}–/${layout[index].offset + layout[index].width}` : '—'}
+              </div>
+              <input
+                type="text"
+                value={field.allowedValues}
+                onChange={(e) => updateField(index, { allowedValues: e.target.value })}
+                placeholder="any"
+                spellCheck={false}
+                className="col-span-3 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 text-sm font-mono focus:outline-none focus:border-blue-400"
+              />
+              <button
+                onClick={() => removeField(index)}
+                title="Remove field"
+                className="col-span-1 p-2 justify-self-start hover:bg-gray-700 rounded-lg"
+              >
+                <Trash2 className="w-4 h-4 text-gray-400" />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 pt-2">
+            <button
+              onClick={addField}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Field
+            </button>
+            <button
+              onClick={() => onTemplateChange(BitFieldTemplates.getDefault())}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset to Example
+            </button>
+          </div>
+        </div>
+
+        {errors.length > 0 ? (
+          <div className="bg-red-900/20 border border-red-700 rounded-lg p-4 space-y-1">
+            {errors.map(error => (
+              <p key={error} className="text-red-300 text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-400 mb-2">
+              Fields cover /{parentPrefixLength} to /{parentPrefixLength + totalWidth}
+              {(parentPrefixLength + totalWidth) % 4 !== 0 && ' (not on a nibble boundary)'}
+            </p>
+            <div className="flex h-8 rounded-lg overflow-hidden text-xs font-medium">
+              {layout.map(field => (
+                <div
+                  key={field.name}
+                  title={`${field.name}: ${field.width} bits`}
+                  style={{ flexGrow: field.width }}
+                  className={`flex items-center justify-center truncate px-1 ${FIELD_COLORS[field.colorIndex].bits}`}
+                >
+                  {field.name}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {errors.length === 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+              <h3 className="text-white font-medium">Encode</h3>
+              {layout.map((field, index) => (
+                <div key={field.name} className="flex items-center gap-2">
+                  <label className="w-28 text-sm text-gray-300 truncate">{field.name}</label>
+                  <input
+                    type="text"
+                    value={values[index] ?? ''}
+                    onChange={(e) => {
+                      const next = [...values];
+                      next[index] = e.target.value;
+                      setValues(next);
+                    }}
+                    placeholder={template.fields[index].allowedValues || `0–${(1n << BigInt(field.width)) - 1n}`}
+                    spellCheck={false}
+                    className="flex-1 min-w-0 px-3 py-2 bg-gray-600 border border-gray-500 rounded-lg text-white placeholder-gray-400 text-sm font-mono focus:outline-none focus:border-blue-400"
+                  />
+                </div>
+              ))}
+              {encoded.error && (
+                <p className="text-red-400 text-sm flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {encoded.error}
+                </p>
+              )}
+              {encoded.result && (
+                <div className="flex items-center gap-2 p-3 bg-gray-600 rounded-lg">
+                  <code className="text-white text-sm flex-1">{encoded.result.prefix}</code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(encoded.result.prefix)}
+                    className="p-1 hover:bg-gray-500 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-300" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+              <h3 className="text-white font-medium">Decode {address.isValid ? address.compressed : 'current address'}</h3>
+              {decoded ? (
+                decoded.map(field => (
+                  <div key={field.name} className="flex items-center gap-2 text-sm">
+                    <span className={`w-3 h-3 rounded flex-shrink-0 ${FIELD_COLORS[field.colorIndex].swatch}`} />
+                    <span className="w-28 text-gray-300 truncate">{field.name}</span>
+                    {field.isDetermined ? (
+                      <>
+                        <code className="text-white">{field.value.toString()}</code>
+                        <code className="text-gray-400">0x{field.value.toString(16)}</code>
+                        {field.isAllowed
+                          ? <CheckCircle className="w-4 h-4 text-green-400" />
+                          : <span className="flex items-center gap-1 text-red-400"><XCircle className="w-4 h-4" />not allowed</span>}
+                      </>
+                    ) : (
+                      <span className="text-gray-500">beyond /{address.prefixLength}</span>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-gray-400">
+                  The current address is not inside {template.parentPrefix}.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useState, useMemo } from 'react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { IPv6Transition, NAT64_PREFIX_LENGTHS } from '../utils/transition';
+import { Router, AlertCircle, AlertTriangle, ArrowLeftRight, Copy } from 'lucide-react';
+
+export const TransitionTools: React.FC = () => {
+  const [server, setServer] = useState('65.54.227.120');
+  const [clientAddress, setClientAddress] = useState('192.0.2.45');
+  const [clientPort, setClientPort] = useState('40000');
+  const [isCone, setIsCone] = useState(true);
+  const [randomBits, setRandomBits] = useState('0');
+
+  const teredo = useMemo(() => {
+    try {
+      const value = IPv6Transition.encodeTeredo({
+        server,
+        clientAddress,
+        clientPort: /^\d+$/.test(clientPort) ? Number(clientPort) : NaN,
+        isCone,
+        randomBits: /^[0-9a-f]{1,3}$/i.test(randomBits) ? parseInt(randomBits, 16) : NaN
+      });
+      return { address: IPv6Parser.format(value), error: undefined };
+    } catch (error) {
+      return { address: undefined, error: (error as Error).message };
+    }
+  }, [server, clientAddress, clientPort, isCone, randomBits]);
+
+  const [nat64Prefix, setNat64Prefix] = useState('64:ff9b::/96');
+  const [ipv4Address, setIPv4Address] = useState('192.0.2.33');
+  const [nat64Address, setNat64Address] = useState('64:ff9b::c000:221');
+
+  const prefix = useMemo(() => {
+    const parsed = IPv6Parser.parse(nat64Prefix);
+    if (!parsed.isValid) {
+      return { error: parsed.error?.message ?? 'Invalid prefix' };
+    }
+    if (!NAT64_PREFIX_LENGTHS.includes(parsed.prefixLength)) {
+      return { error: `RFC 6052 only allows /${NAT64_PREFIX_LENGTHS.join(', /')} prefixes` };
+    }
+    return { value: IPv6Parser.toValue(parsed), length: parsed.prefixLength };
+  }, [nat64Prefix]);
+
+  const synthesized = useMemo(() => {
+    if (!prefix.value) return undefined;
+    try {
+      return { address: IPv6Parser.format(IPv6Transition.synthesizeNAT64(prefix.value, prefix.length, ipv4Address)) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [prefix, ipv4Address]);
+
+  const extracted = useMemo(() => {
+    if (!prefix.value) return undefined;
+    const parsed = IPv6Parser.parse(nat64Address);
+    if (!parsed.isValid) {
+      return { error: parsed.error?.message ?? 'Invalid address' };
+    }
+    const value = IPv6Parser.toValue(parsed);
+    if (!value.mask(prefix.length).equals(prefix.value.mask(prefix.length))) {
+      return { error: `Address is outside ${IPv6Parser.format(prefix.value.mask(prefix.length))}/${prefix.length}` };
+    }
+    return { extraction: IPv6Transition.extractNAT64(value, prefix.length) };
+  }, [prefix, nat64Address]);
+
+  const fields = [
+    { label: 'Teredo Server (IPv4)', value: server, onChange: setServer, placeholder: 'e.g., 65.54.227.120' },
+    { label: 'Client Public Address (IPv4)', value: clientAddress, onChange: setClientAddress, placeholder: 'e.g., 192.0.2.45' },
+    { label: 'Client Public Port', value: clientPort, onChange: setClientPort, placeholder: '0-65535' },
+    { label: 'Random Bits (12-bit hex)', value: randomBits, onChange: setRandomBits, placeholder: '000-fff' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <div className="flex items-center gap-3 mb-6">
+          <Router className="w-6 h-6 text-blue-400" />
+          <h2 className="text-xl font-semibold text-white">Teredo Address Builder</h2>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            {fields.map(field => (
+              <div key={field.label}>
+                <label className="block text-sm font-medium text-gray-300 mb-2">{field.label}</label>
+                <input
+                  type="text"
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  placeholder={field.placeholder}
+                  spellCheck={false}
+                  className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+                />
+              </div>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={isCone}
+                onChange={(e) => setIsCone(e.target.checked)}
+                className="rounded bg-gray-700 border-gray-600 text-blue-500 focus:ring-blue-500"
+              />
+              Cone NAT (sets the C flag)
+            </label>
+          </div>
+
+          <div className="bg-gray-700 rounded-lg p-4 h-fit">
+            <h3 className="text-white font-medium mb-3">Teredo Address</h3>
+            {teredo.address ? (
+              <div className="flex items-center gap-2 p-3 bg-gray-600 rounded-lg">
+                <code className="text-white text-sm flex-1 break-all">{teredo.address}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(teredo.address)}
+                  className="p-1 hover:bg-gray-500 rounded"
+                >
+                  <Copy className="w-4 h-4 text-gray-300" />
+                </button>
+              </div>
+            ) : (
+              <p className="text-red-400 text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {teredo.error}
+              </p>
+            )}
+            <p className="text-xs text-gray-400 mt-3">
+              Client address and port are stored bit-inverted, as required by RFC 4380.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <div className="flex items-center gap-3 mb-6">
+          <ArrowLeftRight className="w-6 h-6 text-blue-400" />
+          <h2 className="text-xl font-semibold text-white">NAT64 Translator (RFC 6052)</h2>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">NAT64 Prefix</label>
+            <input
+              type="text"
+              value={nat64Prefix}
+              onChange={(e) => setNat64Prefix(e.target.value)}
+              placeholder="e.g., 64:ff9b::/96 or 2001:db8:122::/48"
+              spellCheck={false}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+            />
+            {prefix.error && (
+              <p className="text-red-400 text-sm mt-2 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {prefix.error}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+              <h3 className="text-white font-medium">IPv4 → IPv6</h3>
+              <input
+                type="text"
+                value={ipv4Address}
+                onChange={(e) => setIPv4Address(e.target.value)}
+                placeholder="e.g., 192.0.2.33"
+                spellCheck={false}
+                className="w-full px-4 py-3 bg-gray-600 border border-gray-500 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400 font-mono text-sm"
+              />
+              {synthesized?.address && (
+                <div className="flex items-center gap-2 p-3 bg-gray-600 rounded-lg">
+                  <code className="text-white text-sm flex-1 break-all">{synthesized.address}</code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(synthesized.address)}
+                    className="p-1 hover:bg-gray-500 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-300" />
+                  </button>
+                </div>
+              )}
+              {synthesized?.error && (
+                <p className="text-red-400 text-sm flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {synthesized.error}
+                </p>
+              )}
+            </div>
+
+            <div className="bg-gray-700 rounded-lg p-4 space-y-3">
+              <h3 className="text-white font-medium">IPv6 → IPv4</h3>
+              <input
+                type="text"
+                value={nat64Address}
+                onChange={(e) => setNat64Address(e.target.value)}
+                placeholder="e.g., 64:ff9b::c000:221"
+                spellCheck={false}
+                className="w-full px-4 py-3 bg-gray-600 border border-gray-500 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400 font-mono text-sm"
+              />
+              {extracted?.extraction && (
+                <>
+                  <div className="p-3 bg-gray-600 rounded-lg">
+                    <code className="text-white text-sm">{extracted.extraction.ipv4}</code>
+                  </div>
+                  {!extracted.extraction.isUOctetZero && (
+                    <p className="text-yellow-300 text-sm flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      Bits 64-71 (the u-octet) must be zero
+                    </p>
+                  )}
+                  {!extracted.extraction.isSuffixZero && (
+                    <p className="text-yellow-300 text-sm flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      The suffix after the IPv4 address should be zero
+                    </p>
+                  )}
+                </>
+              )}
+              {extracted?.error && (
+                <p className="text-red-400 text-sm flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {extracted.error}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
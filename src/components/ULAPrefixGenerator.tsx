@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { IPv6Parser } from '../utils/ipv6Parser';
+import { ULAGenerator } from '../utils/ulaGenerator';
+import { IPv6Value } from '../utils/ipv6Value';
+import { Shuffle, Clock, Network, Copy, AlertCircle } from 'lucide-react';
+
+interface ULAPrefixGeneratorProps {
+  onUsePrefix: (prefix: string) => void;
+}
+
+export const ULAPrefixGenerator: React.FC<ULAPrefixGeneratorProps> = ({ onUsePrefix }) => {
+  const [mac, setMac] = useState('00:1b:63:84:45:e6');
+  const [prefix, setPrefix] = useState<string | null>(null);
+  const [globalId, setGlobalId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const showPrefix = (value: IPv6Value) => {
+    setPrefix(`${IPv6Parser.format(value)}/48`);
+    setGlobalId(ULAGenerator.getGlobalId(value).toString(16).padStart(10, '0'));
+    setError(null);
+  };
+
+  const handleGenerateFromTimestamp = async () => {
+    try {
+      showPrefix(await ULAGenerator.fromTimestamp(mac));
+    } catch (generationError) {
+      setError((generationError as Error).message);
+    }
+  };
+
+  const handleGenerateRandom = () => {
+    showPrefix(ULAGenerator.random());
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center gap-3 mb-6">
+        <Shuffle className="w-6 h-6 text-blue-400" />
+        <h2 className="text-xl font-semibold text-white">ULA Prefix Generator (RFC 4193)</h2>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              MAC Address (source of the EUI-64)
+            </label>
+            <input
+              type="text"
+              value={mac}
+              onChange={(e) => setMac(e.target.value)}
+              placeholder="e.g., 00:1b:63:84:45:e6"
+              spellCheck={false}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-400 font-mono text-sm"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleGenerateFromTimestamp}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+            >
+              <Clock className="w-4 h-4" />
+              Timestamp + EUI-64
+            </button>
+            <button
+              onClick={handleGenerateRandom}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+            >
+              <Shuffle className="w-4 h-4" />
+              Random Global ID
+            </button>
+          </div>
+          {error && (
+            <p className="text-red-400 text-sm flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+          <p className="text-xs text-gray-400">
+            The timestamp method hashes the current NTP time and the EUI-64 with SHA-1 and keeps the low 40 bits as the Global ID.
+          </p>
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-4 h-fit space-y-3">
+          {prefix ? (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">ULA Prefix</label>
+                <div className="flex items-center gap-2 p-3 bg-gray-600 rounded-lg">
+                  <code className="text-white text-sm flex-1">{prefix}</code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(prefix)}
+                    className="p-1 hover:bg-gray-500 rounded"
+                  >
+                    <Copy className="w-4 h-4 text-gray-300" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">Global ID</label>
+                  <code className="text-white">0x{globalId}</code>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-400 mb-1">/64 Subnets</label>
+                  <div className="text-white">65,536</div>
+                </div>
+              </div>
+              <button
+                onClick={() => onUsePrefix(prefix)}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors duration-200 flex items-center gap-2"
+              >
+                <Network className="w-4 h-4" />
+                Use in Subnetting
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">Generate a prefix to see it here.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,34 @@
 export interface IPv6Address {
   input: string;
   isValid: boolean;
-  error?: string;
+  error?: ParseError;
+  inputFormat?: InputFormat;
   expanded: string;
   compressed: string;
+  mixedNotation?: string;
+  zoneId?: string;
   binary: string;
   hex: string;
   integer: string;
   base64: string;
   networkAddress: string;
   prefixLength: number;
+  hasHostBitsSet: boolean;
+  inputKind: PrefixInputKind;
   firstAddress: string;
   lastAddress: string;
   totalHosts: string;
   totalSubnets: string;
   reverseDNS: string;
   addressType: AddressType;
+  specialPurpose?: SpecialPurposeEntry;
+  teredo?: TeredoInfo;
+  embeddedIPv4: EmbeddedIPv4Info[];
+  macAddress?: MacAddressInfo;
+  multicast?: MulticastInfo;
+  solicitedNode?: SolicitedNodeInfo;
+  anycast?: AnycastInfo;
+  warnings: string[];
   scope: AddressScope;
   isIPv4Mapped: boolean;
   isIPv4Compatible: boolean;
@@ -27,23 +40,219 @@ export interface IPv6Address {
 export interface ParsedIPv6 {
   hextets: number[];
   prefixLength: number;
+  hasPrefix?: boolean;
+  zoneId?: string;
   isValid: boolean;
-  error?: string;
+  error?: ParseError;
+}
+
+export enum ParseErrorCode {
+  EmptyInput = 'EMPTY_INPUT',
+  InvalidCharacter = 'INVALID_CHARACTER',
+  InvalidHextet = 'INVALID_HEXTET',
+  HextetTooLong = 'HEXTET_TOO_LONG',
+  EmptyGroup = 'EMPTY_GROUP',
+  MultipleDoubleColon = 'MULTIPLE_DOUBLE_COLON',
+  RedundantCompression = 'REDUNDANT_COMPRESSION',
+  TooManyGroups = 'TOO_MANY_GROUPS',
+  TooFewGroups = 'TOO_FEW_GROUPS',
+  InvalidIPv4 = 'INVALID_IPV4',
+  MisplacedIPv4 = 'MISPLACED_IPV4',
+  InvalidPrefixLength = 'INVALID_PREFIX_LENGTH',
+  InvalidZoneId = 'INVALID_ZONE_ID',
+  OutOfRange = 'OUT_OF_RANGE',
+  InvalidRange = 'INVALID_RANGE',
+  ZoneNotAllowed = 'ZONE_NOT_ALLOWED',
+  Unknown = 'UNKNOWN'
+}
+
+export interface ParseError {
+  code: ParseErrorCode;
+  message: string;
+  offset: number;
+  length: number;
+  token: string;
+  suggestion?: string;
+}
+
+export enum InputFormat {
+  IPv6Text = 'IPv6 Text',
+  Integer = 'Integer',
+  Hex = 'Hexadecimal',
+  Base64 = 'Base64',
+  Binary = 'Binary',
+  ReverseDNS = 'Reverse DNS (ip6.arpa)'
+}
+
+export interface ParseOptions {
+  strict?: boolean;
+}
+
+export interface CompressOptions {
+  mixedIPv4?: boolean;
 }
 
 export interface SubnetInfo {
+  index: bigint;
   network: string;
   firstAddress: string;
   lastAddress: string;
   broadcastAddress: string;
   totalHosts: string;
+  maxGrowthPrefixLength?: number;
+}
+
+/** RFC 3531 orders for assigning the bits of a subnet ID field. */
+export enum AllocationStrategy {
+  Rightmost = 'rightmost',
+  Leftmost = 'leftmost',
+  Centermost = 'centermost'
+}
+
+export interface AllocationOptions {
+  strategy?: AllocationStrategy;
+  growthBits?: number;
 }
 
 export interface SubnetPlan {
   originalPrefix: string;
   targetPrefixLength: number;
   subnets: SubnetInfo[];
-  totalSubnets: number;
+  totalSubnets: bigint;
+  strategy: AllocationStrategy;
+  growthBits: number;
+}
+
+/**
+ * Hex digits of a subnet's address: digits fully inside the prefix, a digit split
+ * by a non-nibble boundary, and the digits left for hosts. Digits from
+ * subnetDigitStart up to subnetDigitEnd (exclusive) change from subnet to subnet.
+ */
+export interface NibbleInfo {
+  isNibbleAligned: boolean;
+  fixedDigits: number;
+  partialDigits: number;
+  variableDigits: number;
+  subnetDigitStart: number;
+  subnetDigitEnd: number;
+}
+
+/** Prefix length needed for a number of subnets, and the nibble-aligned length at or after it. */
+export interface SubnetCountRecommendation {
+  count: bigint;
+  prefixLength: number;
+  nibblePrefixLength: number;
+  nibbleSubnetCount: bigint;
+}
+
+export interface SubnetPage extends SubnetPlan {
+  page: bigint;
+  pageSize: number;
+  totalPages: bigint;
+  firstIndex: bigint;
+}
+
+/** Named request for the allocation planner, e.g. "DC-East: 200 /64s". */
+export interface AllocationRequirement {
+  name: string;
+  count: number;
+  prefixLength: number;
+}
+
+/** Aligned block handed to one requirement, rounded up to a power of two of its subnets. */
+export interface PlannedAllocation {
+  name: string;
+  prefix: string;
+  requestedCount: number;
+  subnetPrefixLength: number;
+  capacity: bigint;
+  firstSubnet: string;
+  lastSubnet: string;
+}
+
+export interface AllocationPlan {
+  parentPrefix: string;
+  allocations: PlannedAllocation[];
+  unusedPrefixes: string[];
+  totalAddresses: bigint;
+  allocatedAddresses: bigint;
+  unusedAddresses: bigint;
+  unusedPercentage: number;
+}
+
+export enum AllocationStatus {
+  Free = 'free',
+  Allocated = 'allocated',
+  Reserved = 'reserved'
+}
+
+/**
+ * Node of the IPAM allocation tree. Children are sorted by address and never overlap;
+ * space of a node not covered by any child is free.
+ */
+export interface IPAMNode {
+  id: string;
+  prefix: string;
+  status: AllocationStatus;
+  owner: string;
+  description: string;
+  children: IPAMNode[];
+}
+
+export type IPAMNodeDetails = Pick<IPAMNode, 'status' | 'owner' | 'description'>;
+
+/** Named field of an addressing template; allowedValues lists values and ranges such as "1-12, 20" (empty allows any). */
+export interface BitField {
+  name: string;
+  width: number;
+  allowedValues: string;
+}
+
+/** Fields laid out back to back in the bits that follow the parent prefix. */
+export interface BitFieldTemplate {
+  name: string;
+  parentPrefix: string;
+  fields: BitField[];
+}
+
+/** Template field placed at its offset from the first (most significant) bit of the address. */
+export interface BitFieldLayout {
+  name: string;
+  offset: number;
+  width: number;
+  colorIndex: number;
+}
+
+export interface DecodedBitField extends BitFieldLayout {
+  value: bigint;
+  isAllowed: boolean;
+  isDetermined: boolean;
+}
+
+export interface AddressRangeInfo {
+  input: string;
+  isValid: boolean;
+  error?: ParseError;
+  firstAddress: string;
+  lastAddress: string;
+  size: bigint;
+}
+
+export interface PrefixListRange {
+  firstAddress: string;
+  lastAddress: string;
+  size: bigint;
+  coveredAddresses: bigint;
+  isContiguous: boolean;
+}
+
+export interface SupernetInfo {
+  supernet: string;
+  prefixLength: number;
+  totalAddresses: bigint;
+  coveredAddresses: bigint;
+  extraAddresses: bigint;
+  extraPercentage: number;
 }
 
 export enum AddressType {
@@ -59,21 +268,162 @@ export enum AddressType {
   Reserved = 'Reserved',
   Documentation = 'Documentation',
   Teredo = 'Teredo',
-  SixToFour = '6to4'
+  SixToFour = '6to4',
+  Translation = 'IPv4/IPv6 Translation',
+  DiscardOnly = 'Discard-Only',
+  Benchmarking = 'Benchmarking',
+  Orchid = 'ORCHIDv2',
+  SegmentRouting = 'SRv6 SID'
+}
+
+/** Fields embedded in a 2001::/32 Teredo address (RFC 4380, flags per RFC 5991). */
+export interface TeredoInfo {
+  server: string;
+  clientAddress: string;
+  clientPort: number;
+  flags: number;
+  isCone: boolean;
+  randomBits: number;
+}
+
+export interface TeredoOptions {
+  server: string;
+  clientAddress: string;
+  clientPort: number;
+  isCone?: boolean;
+  randomBits?: number;
+}
+
+export enum EmbeddedIPv4Kind {
+  SixToFour = '6to4',
+  ISATAP = 'ISATAP',
+  NAT64 = 'NAT64 (RFC 6052)'
+}
+
+/** IPv4 address carried inside an IPv6 address, with the prefix that carries it. */
+export interface EmbeddedIPv4Info {
+  kind: EmbeddedIPv4Kind;
+  ipv4: string;
+  prefix: string;
+}
+
+/** IPv4 address recovered from an RFC 6052 IPv4-embedded IPv6 address. */
+export interface NAT64Extraction {
+  ipv4: string;
+  isUOctetZero: boolean;
+  isSuffixZero: boolean;
+}
+
+/** MAC-48 address with the IEEE flag bits of its first octet and its OUI vendor. */
+export interface MacAddressInfo {
+  mac: string;
+  oui: string;
+  vendor?: string;
+  isUniversal: boolean;
+  isGroup: boolean;
+}
+
+/** Breakdown of an ff00::/8 address (RFC 4291, RFC 3306 prefix-based and RFC 3956 embedded RP). */
+export interface MulticastInfo {
+  flags: number;
+  hasEmbeddedRP: boolean;
+  isPrefixBased: boolean;
+  isTransient: boolean;
+  scope: number;
+  scopeName: string;
+  groupId: string;
+  wellKnownGroup?: string;
+  unicastPrefix?: string;
+  isSourceSpecific: boolean;
+  rendezvousPoint?: string;
+  macAddress: string;
+}
+
+/**
+ * Solicited-node group of a unicast address (RFC 4291 section 2.7.1) and the other
+ * addresses of its prefix that share the group, capped at the first few.
+ */
+export interface SolicitedNodeInfo {
+  group: string;
+  macAddress: string;
+  prefix: string;
+  collisionCount: string;
+  collisions: string[];
+}
+
+export enum AnycastKind {
+  SubnetRouter = 'Subnet-Router',
+  ReservedSubnet = 'Reserved Subnet Anycast'
+}
+
+/** Anycast address defined by the subnet it belongs to (RFC 4291 section 2.6.1, RFC 2526). */
+export interface AnycastInfo {
+  kind: AnycastKind;
+  subnet: string;
+  anycastId?: number;
+  name: string;
+}
+
+/** Addresses of a subnet that must not be assigned to hosts. */
+export interface ReservedAnycastAddresses {
+  subnetRouter?: string;
+  reservedRangeStart?: string;
+  reservedRangeEnd?: string;
+  homeAgents?: string;
+  /** The range shown is for the first /64; every /64 link of the subnet reserves its own. */
+  repeatsPerLink: boolean;
+}
+
+/** Inputs of the RFC 7217 stable opaque interface identifier function. */
+export interface StablePrivacyOptions {
+  prefix: number[];
+  interfaceName: string;
+  networkId: string;
+  dadCounter: number;
+  secretKey: string;
+}
+
+/**
+ * Entry of the IANA IPv6 Special-Purpose Address Registry. A null flag means
+ * the registry lists it as N/A for that block.
+ */
+export interface SpecialPurposeEntry {
+  prefix: string;
+  prefixLength: number;
+  name: string;
+  rfc: string;
+  source: boolean | null;
+  destination: boolean | null;
+  forwardable: boolean | null;
+  globallyReachable: boolean | null;
+  reservedByProtocol: boolean | null;
+}
+
+export enum PrefixInputKind {
+  Address = 'Address',
+  InterfaceWithPrefix = 'Interface address with prefix',
+  NetworkPrefix = 'Network prefix'
 }
 
 export enum AddressScope {
   InterfaceLocal = 'Interface-Local',
   LinkLocal = 'Link-Local',
+  RealmLocal = 'Realm-Local',
   AdminLocal = 'Admin-Local',
   SiteLocal = 'Site-Local',
   OrganizationLocal = 'Organization-Local',
   Global = 'Global'
 }
 
+export enum ComplianceStatus {
+  Pass = 'pass',
+  Warn = 'warn',
+  Fail = 'fail'
+}
+
 export interface RFCCompliance {
   rfc: string;
   title: string;
-  compliant: boolean;
-  notes?: string;
+  status: ComplianceStatus;
+  explanation: string;
 }
\ No newline at end of file
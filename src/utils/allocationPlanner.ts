@@ -0,0 +1,153 @@
+import { AllocationPlan, AllocationRequirement, PlannedAllocation } from '../types/ipv6';
+import { IPv6Parser } from './ipv6Parser';
+import { IPv6Subnetting } from './subnetting';
+import { IPv6Value, percentOf } from './ipv6Value';
+
+interface FreeBlock {
+  network: IPv6Value;
+  prefixLength: number;
+}
+
+// "Name: 200 /64s", "Name: 64 × /127", "Name: 1 /64"
+const REQUIREMENT_PATTERN = /^(.+?)\s*:\s*(\d+)\s*(?:[x×*]\s*)?\/(\d{1,3})s?$/i;
+
+/**
+ * VLSM planner: gives every named requirement one aligned block from the parent
+ * prefix, largest first, each taken from the smallest free block that fits.
+ */
+export class IPv6AllocationPlanner {
+  /** Parses one requirement per line; blank lines and # comments are skipped. */
+  static parseRequirements(text: string): AllocationRequirement[] {
+    return text
+      .split('\n')
+      .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+      .filter(({ line }) => line.length > 0 && !line.startsWith('#'))
+      .map(({ line, lineNumber }) => {
+        const match = line.match(REQUIREMENT_PATTERN);
+        if (!match) {
+          throw new RangeError(`Line ${lineNumber}: expected "name: count /length", e.g. "DC-East: 200 /64s"`);
+        }
+        return { name: match[1], count: parseInt(match[2], 10), prefixLength: parseInt(match[3], 10) };
+      });
+  }
+
+  static plan(parentPrefix: string, requirements: AllocationRequirement[]): AllocationPlan {
+    const parsed = IPv6Parser.parse(parentPrefix);
+    if (!parsed.isValid) {
+      throw new RangeError('Invalid IPv6 prefix');
+    }
+
+    const parent: FreeBlock = {
+      network: IPv6Parser.toValue(parsed).mask(parsed.prefixLength),
+      prefixLength: parsed.prefixLength
+    };
+    const blocks = requirements.map(requirement => ({
+      requirement,
+      blockPrefixLength: this.getBlockPrefixLength(requirement, parent.prefixLength)
+    }));
+
+    // Largest blocks first keeps every later block aligned without fragmenting the parent
+    const ordered = [...blocks].sort((a, b) => a.blockPrefixLength - b.blockPrefixLength);
+    const free: FreeBlock[] = [parent];
+    const allocations: PlannedAllocation[] = [];
+
+    for (const { requirement, blockPrefixLength } of ordered) {
+      const block = this.takeBestFit(free, blockPrefixLength);
+      if (!block) {
+        throw new RangeError(
+          `"${requirement.name}" needs a /${blockPrefixLength} but ${this.describeFreeSpace(free)} is left in ${this.formatPrefix(parent)}`
+        );
+      }
+      allocations.push(this.buildAllocation(requirement, block));
+    }
+
+    const totalAddresses = IPv6Value.blockSize(parent.prefixLength);
+    const unusedAddresses = free.reduce((sum, block) => sum + IPv6Value.blockSize(block.prefixLength), 0n);
+
+    return {
+      parentPrefix: this.formatPrefix(parent),
+      allocations: allocations.sort((a, b) =>
+        IPv6Parser.toValue(IPv6Parser.parse(a.prefix)).compare(IPv6Parser.toValue(IPv6Parser.parse(b.prefix)))
+      ),
+      unusedPrefixes: IPv6Subnetting.summarizeRoutes(free.map(block => this.formatPrefix(block))),
+      totalAddresses,
+      allocatedAddresses: totalAddresses - unusedAddresses,
+      unusedAddresses,
+      unusedPercentage: percentOf(unusedAddresses, totalAddresses)
+    };
+  }
+
+  /** Length of the smallest aligned block holding count subnets of the requested size. */
+  private static getBlockPrefixLength(requirement: AllocationRequirement, parentPrefixLength: number): number {
+    const { name, count, prefixLength } = requirement;
+
+    if (!Number.isInteger(count) || count < 1) {
+      throw new RangeError(`"${name}" must request at least one subnet`);
+    }
+    if (prefixLength > 128) {
+      throw new RangeError(`"${name}": prefix length cannot exceed 128`);
+    }
+    if (prefixLength < parentPrefixLength) {
+      throw new RangeError(`"${name}": a /${prefixLength} is larger than the /${parentPrefixLength} parent`);
+    }
+
+    let extraBits = 0;
+    while ((1n << BigInt(extraBits)) < BigInt(count)) extraBits++;
+
+    if (prefixLength - extraBits < parentPrefixLength) {
+      throw new RangeError(
+        `"${name}": ${count.toLocaleString()} × /${prefixLength} needs a /${prefixLength - extraBits}, larger than the /${parentPrefixLength} parent`
+      );
+    }
+
+    return prefixLength - extraBits;
+  }
+
+  /** Removes the smallest free block that can hold the target, splitting off the unused halves. */
+  private static takeBestFit(free: FreeBlock[], targetPrefixLength: number): FreeBlock | null {
+    let bestIndex = -1;
+    free.forEach((block, index) => {
+      if (block.prefixLength > targetPrefixLength) return;
+      const best = free[bestIndex];
+      if (!best ||
+          block.prefixLength > best.prefixLength ||
+          (block.prefixLength === best.prefixLength && block.network.compare(best.network) < 0)) {
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex < 0) return null;
+
+    const [block] = free.splice(bestIndex, 1);
+    for (let length = block.prefixLength + 1; length <= targetPrefixLength; length++) {
+      free.push({ network: block.network.add(IPv6Value.blockSize(length)), prefixLength: length });
+    }
+
+    return { network: block.network, prefixLength: targetPrefixLength };
+  }
+
+  private static buildAllocation(requirement: AllocationRequirement, block: FreeBlock): PlannedAllocation {
+    const subnetSize = IPv6Value.blockSize(requirement.prefixLength);
+    const lastSubnet = block.network.add(BigInt(requirement.count - 1) * subnetSize);
+
+    return {
+      name: requirement.name,
+      prefix: this.formatPrefix(block),
+      requestedCount: requirement.count,
+      subnetPrefixLength: requirement.prefixLength,
+      capacity: 1n << BigInt(requirement.prefixLength - block.prefixLength),
+      firstSubnet: `${IPv6Parser.format(block.network)}/${requirement.prefixLength}`,
+      lastSubnet: `${IPv6Parser.format(lastSubnet)}/${requirement.prefixLength}`
+    };
+  }
+
+  private static describeFreeSpace(free: FreeBlock[]): string {
+    if (free.length === 0) return 'no space';
+    const largest = Math.min(...free.map(block => block.prefixLength));
+    return `only a /${largest} or smaller`;
+  }
+
+  private static formatPrefix(block: FreeBlock): string {
+    return `${IPv6Parser.format(block.network)}/${block.prefixLength}`;
+  }
+}
@@ -0,0 +1,102 @@
+import { AnycastInfo, AnycastKind, ReservedAnycastAddresses } from '../types/ipv6';
+import { IPv6Multicast } from './multicast';
+import { IPv6Parser } from './ipv6Parser';
+import { IPv6Value } from './ipv6Value';
+
+const RESERVED_ANYCAST_IDS = 128n;
+const HOME_AGENTS_ANYCAST_ID = 0x7e;
+
+// The 7-bit anycast ID needs at least that many host bits
+const MAX_RESERVED_PREFIX_LENGTH = 121;
+
+// EUI-64 format interface IDs: all ones except the cleared u bit and the 7-bit anycast ID
+const EUI64_RESERVED_BASE = 0xfdffffffffffff80n;
+const EUI64_PREFIX_LENGTH = 64;
+
+/** Subnet-Router anycast (RFC 4291 section 2.6.1) and reserved subnet anycast addresses (RFC 2526). */
+export class IPv6Anycast {
+  /**
+   * Anycast role of a unicast address. The Subnet-Router address needs an explicit
+   * prefix; the RFC 2526 range falls back to a /64 link when none was given.
+   */
+  static analyze(value: IPv6Value, prefixLength: number, hasPrefix: boolean): AnycastInfo | null {
+    if (IPv6Multicast.isMulticast(value) || value.equals(IPv6Value.ZERO)) {
+      return null;
+    }
+
+    const reserved = this.getReservedSubnetAnycast(value, hasPrefix ? prefixLength : 64);
+    if (reserved) {
+      return reserved;
+    }
+
+    // RFC 6164 drops the Subnet-Router anycast address on /127 point-to-point links
+    if (hasPrefix && prefixLength < 127 && value.isNetworkAddress(prefixLength)) {
+      return {
+        kind: AnycastKind.SubnetRouter,
+        subnet: `${IPv6Parser.format(value)}/${prefixLength}`,
+        name: 'Subnet-Router anycast'
+      };
+    }
+
+    return null;
+  }
+
+  static getReservedSubnetAnycast(value: IPv6Value, prefixLength: number): AnycastInfo | null {
+    const range = this.getReservedRange(value, prefixLength);
+    if (!range || value.compare(range.first) < 0 || value.compare(range.last) > 0) {
+      return null;
+    }
+
+    const anycastId = Number(range.first.distanceTo(value));
+    const linkPrefixLength = this.usesEui64InterfaceIds(value) ? EUI64_PREFIX_LENGTH : prefixLength;
+    return {
+      kind: AnycastKind.ReservedSubnet,
+      subnet: `${IPv6Parser.format(value.mask(linkPrefixLength))}/${linkPrefixLength}`,
+      anycastId,
+      name: anycastId === HOME_AGENTS_ANYCAST_ID ? 'Mobile IPv6 Home-Agents anycast' : 'Reserved'
+    };
+  }
+
+  /** RFC 4291 section 2.5.1: unicast outside the 000 format prefix uses 64-bit EUI-64 format interface IDs. */
+  static usesEui64InterfaceIds(value: IPv6Value): boolean {
+    return !value.mask(3).equals(IPv6Value.ZERO);
+  }
+
+  /**
+   * The 128 reserved subnet anycast addresses of a subnet. Where EUI-64 format IDs apply
+   * they are interface IDs fdff:ffff:ffff:ff80 and up in the /64 holding the network, and
+   * there are none for prefixes longer than /64. Under the 000 format prefix they are the
+   * highest 128 addresses of the subnet.
+   */
+  static getReservedRange(network: IPv6Value, prefixLength: number): { first: IPv6Value; last: IPv6Value } | null {
+    if (prefixLength > MAX_RESERVED_PREFIX_LENGTH) {
+      return null;
+    }
+
+    let first: IPv6Value;
+    if (this.usesEui64InterfaceIds(network)) {
+      if (prefixLength > EUI64_PREFIX_LENGTH) {
+        return null;
+      }
+      first = network.mask(EUI64_PREFIX_LENGTH).or(IPv6Value.fromBigInt(EUI64_RESERVED_BASE));
+    } else {
+      first = network.mask(prefixLength).fillHostBits(prefixLength).subtract(RESERVED_ANYCAST_IDS - 1n);
+    }
+
+    return { first, last: first.add(RESERVED_ANYCAST_IDS - 1n) };
+  }
+
+  /** Addresses of a subnet that hosts must not be numbered from. */
+  static getReservedAddresses(network: IPv6Value, prefixLength: number): ReservedAnycastAddresses {
+    const subnet = network.mask(prefixLength);
+    const range = this.getReservedRange(subnet, prefixLength);
+
+    return {
+      subnetRouter: prefixLength < 127 ? IPv6Parser.format(subnet) : undefined,
+      reservedRangeStart: range ? IPv6Parser.format(range.first) : undefined,
+      reservedRangeEnd: range ? IPv6Parser.format(range.last) : undefined,
+      homeAgents: range ? IPv6Parser.format(range.first.add(HOME_AGENTS_ANYCAST_ID)) : undefined,
+      repeatsPerLink: range !== null && this.usesEui64InterfaceIds(subnet) && prefixLength < EUI64_PREFIX_LENGTH
+    };
+  }
+}
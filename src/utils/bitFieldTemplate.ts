@@ -0,0 +1,243 @@
+import { BitField, BitFieldLayout, BitFieldTemplate, DecodedBitField } from '../types/ipv6';
+import { IPv6Parser } from './ipv6Parser';
+import { IPv6Value } from './ipv6Value';
+
+const STORAGE_KEY = 'ipv6-calculator:template';
+
+// Tailwind classes for field overlays; fields cycle through them in order
+export const FIELD_COLORS = [
+  { bits: 'text-amber-300 bg-amber-900/40', swatch: 'bg-amber-400' },
+  { bits: 'text-pink-300 bg-pink-900/40', swatch: 'bg-pink-400' },
+  { bits: 'text-lime-300 bg-lime-900/40', swatch: 'bg-lime-400' },
+  { bits: 'text-violet-300 bg-violet-900/40', swatch: 'bg-violet-400' },
+  { bits: 'text-orange-300 bg-orange-900/40', swatch: 'bg-orange-400' },
+  { bits: 'text-cyan-300 bg-cyan-900/40', swatch: 'bg-cyan-400' }
+];
+
+const DEFAULT_TEMPLATE: BitFieldTemplate = {
+  name: 'Campus /64',
+  parentPrefix: '2001:db8::/48',
+  fields: [
+    { name: 'Site', width: 4, allowedValues: '1-12' },
+    { name: 'Building', width: 2, allowedValues: '' },
+    { name: 'Function', width: 2, allowedValues: '0-2' },
+    { name: 'VLAN', width: 8, allowedValues: '' }
+  ]
+};
+
+/** Bit-field addressing templates: validation, encoding of field values and decoding of addresses. */
+export class BitFieldTemplates {
+  static getDefault(): BitFieldTemplate {
+    return { ...DEFAULT_TEMPLATE, fields: DEFAULT_TEMPLATE.fields.map(field => ({ ...field })) };
+  }
+
+  /** Problems that keep the template from being used; empty when it is valid. */
+  static validate(template: BitFieldTemplate): string[] {
+    const errors: string[] = [];
+    const parsed = IPv6Parser.parse(template.parentPrefix);
+
+    if (!parsed.isValid) {
+      errors.push(`Parent prefix: ${parsed.error?.message ?? 'invalid IPv6 prefix'}`);
+    } else if (parsed.hasHostBitsSet) {
+      errors.push(`Parent prefix has host bits set; did you mean ${parsed.networkAddress}?`);
+    }
+
+    if (template.fields.length === 0) {
+      errors.push('Add at least one field');
+    }
+
+    const names = new Set<string>();
+    template.fields.forEach((field, index) => {
+      const label = field.name.trim() || `Field ${index + 1}`;
+      if (!field.name.trim()) {
+        errors.push(`${label}: name is required`);
+      } else if (names.has(field.name.trim())) {
+        errors.push(`${label}: name is used twice`);
+      }
+      names.add(field.name.trim());
+
+      if (!Number.isInteger(field.width) || field.width < 1) {
+        errors.push(`${label}: width must be at least 1 bit`);
+      }
+      try {
+        this.parseAllowedValues(field.allowedValues, field.width);
+      } catch (error) {
+        errors.push(`${label}: ${(error as Error).message}`);
+      }
+    });
+
+    if (parsed.isValid) {
+      const totalWidth = this.getTotalWidth(template);
+      if (parsed.prefixLength + totalWidth > 128) {
+        errors.push(`Fields need ${totalWidth} bits but the /${parsed.prefixLength} parent leaves only ${128 - parsed.prefixLength}`);
+      }
+    }
+
+    return errors;
+  }
+
+  static getTotalWidth(template: BitFieldTemplate): number {
+    return template.fields.reduce((sum, field) => sum + field.width, 0);
+  }
+
+  /** Fields with their absolute bit offsets; the template must be valid. */
+  static getLayout(template: BitFieldTemplate): BitFieldLayout[] {
+    let offset = IPv6Parser.parse(template.parentPrefix).prefixLength;
+    return template.fields.map((field, index) => {
+      const layout = { name: field.name.trim(), offset, width: field.width, colorIndex: index % FIELD_COLORS.length };
+      offset += field.width;
+      return layout;
+    });
+  }
+
+  /** Decimal or 0x-prefixed hexadecimal field value. */
+  static parseValue(text: string): bigint {
+    const trimmed = text.trim();
+    if (!/^(\d+|0x[0-9a-f]+)$/i.test(trimmed)) {
+      throw new RangeError(`"${trimmed}" is not a decimal or 0x hex number`);
+    }
+    return BigInt(trimmed);
+  }
+
+  /** Inclusive ranges from a list such as "1-12, 20, 0x30"; null when every value is allowed. */
+  static parseAllowedValues(text: string, width: number): [bigint, bigint][] | null {
+    if (text.trim().length === 0) {
+      return null;
+    }
+
+    const max = (1n << BigInt(Math.max(width, 0))) - 1n;
+    return text.split(',').map(part => {
+      const bounds = part.split('-');
+      if (bounds.length > 2) {
+        throw new RangeError(`"${part.trim()}" is not a value or a low-high range`);
+      }
+      const [low, high = low] = bounds.map(bound => this.parseValue(bound));
+      if (low > high) {
+        throw new RangeError(`range ${low}-${high} is reversed`);
+      }
+      if (high > max) {
+        throw new RangeError(`${high} does not fit in ${width} bits`);
+      }
+      return [low, high];
+    });
+  }
+
+  /**
+   * Builds an address from field values given in template order. Trailing blank fields
+   * are left out, so filling only the leading fields yields a shorter prefix.
+   */
+  static encode(template: BitFieldTemplate, values: string[]): { address: string; prefix: string } {
+    const errors = this.validate(template);
+    if (errors.length > 0) {
+      throw new RangeError(errors[0]);
+    }
+
+    const layout = this.getLayout(template);
+    const filled = values.slice(0, layout.length);
+    while (filled.length > 0 && filled[filled.length - 1].trim() === '') {
+      filled.pop();
+    }
+
+    let bits = IPv6Parser.toValue(IPv6Parser.parse(template.parentPrefix)).toBigInt();
+    filled.forEach((text, index) => {
+      const field = layout[index];
+      if (text.trim() === '') {
+        throw new RangeError(`${field.name}: a value is needed because a later field is set`);
+      }
+
+      const value = this.parseValue(text);
+      if (value >= 1n << BigInt(field.width)) {
+        throw new RangeError(`${field.name}: ${value} does not fit in ${field.width} bits`);
+      }
+      if (!this.isAllowed(value, this.parseAllowedValues(template.fields[index].allowedValues, field.width))) {
+        throw new RangeError(`${field.name}: ${value} is not an allowed value (${template.fields[index].allowedValues})`);
+      }
+
+      bits |= value << BigInt(128 - field.offset - field.width);
+    });
+
+    const value = IPv6Value.fromBigInt(bits);
+    const prefixLength = filled.length > 0
+      ? layout[filled.length - 1].offset + layout[filled.length - 1].width
+      : IPv6Parser.parse(template.parentPrefix).prefixLength;
+
+    return {
+      address: IPv6Parser.format(value),
+      prefix: `${IPv6Parser.format(value)}/${prefixLength}`
+    };
+  }
+
+  /**
+   * Field values of an address inside the template's parent prefix; null when the
+   * template is invalid or the address lies outside the parent. Fields reaching
+   * beyond prefixLength are marked as not determined by the input.
+   */
+  static decode(template: BitFieldTemplate, value: IPv6Value, prefixLength: number): DecodedBitField[] | null {
+    if (this.validate(template).length > 0) {
+      return null;
+    }
+
+    const parent = IPv6Parser.parse(template.parentPrefix);
+    if (!value.mask(parent.prefixLength).equals(IPv6Parser.toValue(parent))) {
+      return null;
+    }
+
+    const bits = value.toBigInt();
+    return this.getLayout(template).map((field, index) => {
+      const fieldValue = (bits >> BigInt(128 - field.offset - field.width)) & ((1n << BigInt(field.width)) - 1n);
+      return {
+        ...field,
+        value: fieldValue,
+        isAllowed: this.isAllowed(fieldValue, this.parseAllowedValues(template.fields[index].allowedValues, field.width)),
+        isDetermined: field.offset + field.width <= prefixLength
+      };
+    });
+  }
+
+  /** The stored template, or the default when nothing usable is stored. */
+  static load(): BitFieldTemplate {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const template: unknown = stored ? JSON.parse(stored) : null;
+      if (!this.isTemplate(template)) {
+        return this.getDefault();
+      }
+      // A cleared width input is NaN, which JSON stores as null
+      return { ...template, fields: template.fields.map(field => ({ ...field, width: field.width ?? NaN })) };
+    } catch {
+      return this.getDefault();
+    }
+  }
+
+  /** Stores the template; returns an error message instead of throwing when storage is full or unavailable. */
+  static save(template: BitFieldTemplate): string | null {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+      return null;
+    } catch (error) {
+      return (error as Error).name === 'QuotaExceededError'
+        ? 'Browser storage is full; the template will not be kept after reloading'
+        : `Template could not be saved: ${(error as Error).message}`;
+    }
+  }
+
+  // Shape check only; validate() reports problems with the values themselves
+  private static isTemplate(value: unknown): value is BitFieldTemplate {
+    const template = value as Partial<Record<keyof BitFieldTemplate, unknown>> | null;
+    return typeof template === 'object' && template !== null &&
+      typeof template.name === 'string' &&
+      typeof template.parentPrefix === 'string' &&
+      Array.isArray(template.fields) &&
+      template.fields.every(field => {
+        const candidate = field as Partial<Record<keyof BitField, unknown>> | null;
+        return typeof candidate === 'object' && candidate !== null &&
+          typeof candidate.name === 'string' &&
+          (typeof candidate.width === 'number' || candidate.width === null) &&
+          typeof candidate.allowedValues === 'string';
+      });
+  }
+
+  private static isAllowed(value: bigint, allowed: [bigint, bigint][] | null): boolean {
+    return !allowed || allowed.some(([low, high]) => value >= low && value <= high);
+  }
+}
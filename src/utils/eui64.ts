@@ -0,0 +1,81 @@
+import { MacAddressInfo } from '../types/ipv6';
+import { IPv6Value } from './ipv6Value';
+import { OUI_VENDORS } from './ouiVendors';
+
+const UNIVERSAL_LOCAL_BIT = 0x02;
+const INDIVIDUAL_GROUP_BIT = 0x01;
+
+/** Conversion between MAC-48 addresses and modified EUI-64 interface identifiers (RFC 4291 appendix A). */
+export class EUI64 {
+  /**
+   * Parses a MAC address in colon (00:1b:63:84:45:e6), dash (00-1B-63-84-45-E6),
+   * Cisco dotted (001b.6384.45e6) or bare hex notation into its six octets.
+   */
+  static parseMac(input: string): number[] | null {
+    const text = input.trim().toLowerCase();
+    let hex: string;
+
+    if (/^[0-9a-f]{1,2}([:-])[0-9a-f]{1,2}(\1[0-9a-f]{1,2}){4}$/.test(text)) {
+      hex = text.split(/[:-]/).map(octet => octet.padStart(2, '0')).join('');
+    } else if (/^[0-9a-f]{4}\.[0-9a-f]{4}\.[0-9a-f]{4}$/.test(text)) {
+      hex = text.replace(/\./g, '');
+    } else if (/^[0-9a-f]{12}$/.test(text)) {
+      hex = text;
+    } else {
+      return null;
+    }
+
+    return hex.match(/../g)!.map(octet => parseInt(octet, 16));
+  }
+
+  static formatMac(octets: number[], separator: ':' | '-' = ':'): string {
+    return octets.map(octet => octet.toString(16).padStart(2, '0')).join(separator);
+  }
+
+  /** Cisco dotted notation, e.g. 001b.6384.45e6. */
+  static formatCiscoMac(octets: number[]): string {
+    return this.formatMac(octets, ':').replace(/:/g, '').match(/.{4}/g)!.join('.');
+  }
+
+  static describeMac(octets: number[]): MacAddressInfo {
+    const oui = this.formatMac(octets.slice(0, 3));
+    return {
+      mac: this.formatMac(octets),
+      oui,
+      vendor: OUI_VENDORS[oui],
+      isUniversal: (octets[0] & UNIVERSAL_LOCAL_BIT) === 0,
+      isGroup: (octets[0] & INDIVIDUAL_GROUP_BIT) !== 0
+    };
+  }
+
+  /** True when the interface identifier has the ff:fe filler of a MAC-derived EUI-64. */
+  static isMacDerived(value: IPv6Value): boolean {
+    return ((value.toBigInt() >> 24n) & 0xffffn) === 0xfffen;
+  }
+
+  /** Recovers the MAC address behind a modified EUI-64 interface identifier, flipping the U/L bit back. */
+  static toMac(value: IPv6Value): number[] | null {
+    if (!this.isMacDerived(value)) {
+      return null;
+    }
+
+    const interfaceId = value.toBigInt() & 0xffffffffffffffffn;
+    const octets = [56n, 48n, 40n, 32n, 24n, 16n, 8n, 0n].map(shift => Number((interfaceId >> shift) & 0xffn));
+    return [octets[0] ^ UNIVERSAL_LOCAL_BIT, octets[1], octets[2], octets[5], octets[6], octets[7]];
+  }
+
+  /** Modified EUI-64 interface identifier for a MAC address: ff:fe inserted and the U/L bit inverted. */
+  static toInterfaceId(mac: number[]): bigint {
+    const octets = [mac[0] ^ UNIVERSAL_LOCAL_BIT, mac[1], mac[2], 0xff, 0xfe, mac[3], mac[4], mac[5]];
+    return octets.reduce((result, octet) => (result << 8n) | BigInt(octet), 0n);
+  }
+
+  /** SLAAC address built from the /64 containing the prefix and a MAC in any supported notation. */
+  static buildSLAACAddress(prefix: IPv6Value, mac: string): IPv6Value {
+    const octets = this.parseMac(mac);
+    if (!octets) {
+      throw new RangeError('MAC address must use colon, dash or Cisco dotted notation');
+    }
+    return IPv6Value.fromBigInt(prefix.mask(64).toBigInt() | this.toInterfaceId(octets));
+  }
+}
@@ -0,0 +1,88 @@
+import { StablePrivacyOptions } from '../types/ipv6';
+import { IPv6Value } from './ipv6Value';
+
+const MAX_ATTEMPTS = 16;
+
+// The DAD counter is hashed as a 32-bit unsigned integer
+export const MAX_DAD_COUNTER = 0xffffffff;
+
+/** Generators for privacy-preserving SLAAC interface identifiers. */
+export class InterfaceIdGenerator {
+  /**
+   * Reserved interface identifiers of RFC 5453: the subnet-router anycast IID, the
+   * reserved subnet anycast range and the IANA ethernet block 0200:5eff:fe00:0/104.
+   */
+  static isReservedInterfaceId(interfaceId: bigint): boolean {
+    return interfaceId === 0n ||
+           (interfaceId >= 0xfdffffffffffff80n && interfaceId <= 0xfdffffffffffffffn) ||
+           (interfaceId >= 0x02005efffe000000n && interfaceId <= 0x02005efffeffffffn);
+  }
+
+  /**
+   * RFC 7217 stable opaque IID: the low 64 bits of SHA-256 over the /64 prefix, interface
+   * name, network ID, DAD counter (32-bit big-endian) and secret key. A reserved result
+   * is retried with the next DAD counter, as section 5 requires.
+   */
+  static async stablePrivacy(options: StablePrivacyOptions): Promise<IPv6Value> {
+    if (!Number.isInteger(options.dadCounter) || options.dadCounter < 0 || options.dadCounter > MAX_DAD_COUNTER) {
+      throw new RangeError(`DAD counter must be between 0 and ${MAX_DAD_COUNTER}`);
+    }
+
+    const network = IPv6Value.fromHextets(options.prefix).mask(64);
+    const encoder = new TextEncoder();
+
+    // Retries stop at the largest counter rather than wrapping around to 0
+    for (let attempt = 0; attempt < MAX_ATTEMPTS && options.dadCounter + attempt <= MAX_DAD_COUNTER; attempt++) {
+      const counter = new Uint8Array(4);
+      new DataView(counter.buffer).setUint32(0, options.dadCounter + attempt);
+
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', this.concat([
+        this.toBytes(network.toBigInt() >> 64n, 8),
+        encoder.encode(options.interfaceName),
+        encoder.encode(options.networkId),
+        counter,
+        encoder.encode(options.secretKey)
+      ])));
+
+      const interfaceId = this.fromBytes(digest.slice(-8));
+      if (!this.isReservedInterfaceId(interfaceId)) {
+        return network.or(IPv6Value.fromBigInt(interfaceId));
+      }
+    }
+
+    throw new Error('Could not derive a non-reserved interface identifier');
+  }
+
+  /** RFC 8981 temporary address: a random IID, redrawn while it falls in an RFC 5453 reserved range. */
+  static temporary(prefix: IPv6Value): IPv6Value {
+    let interfaceId: bigint;
+    do {
+      interfaceId = this.fromBytes(crypto.getRandomValues(new Uint8Array(8)));
+    } while (this.isReservedInterfaceId(interfaceId));
+
+    return prefix.mask(64).or(IPv6Value.fromBigInt(interfaceId));
+  }
+
+  private static toBytes(value: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+    return bytes;
+  }
+
+  private static fromBytes(bytes: Uint8Array): bigint {
+    return bytes.reduce((result, byte) => (result << 8n) | BigInt(byte), 0n);
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
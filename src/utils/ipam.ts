@@ -0,0 +1,311 @@
+import { AllocationStatus, IPAMNode, IPAMNodeDetails } from '../types/ipv6';
+import { IPv6Parser } from './ipv6Parser';
+import { IPv6Subnetting } from './subnetting';
+import { IPv6Range, IPv6Value, percentOf } from './ipv6Value';
+
+const STORAGE_KEY = 'ipv6-calculator:ipam';
+const EXPORT_VERSION = 1;
+
+// Subdividing creates every child explicitly, so keep it to 256 children per step
+const MAX_SUBDIVIDE_BITS = 8;
+
+interface FreeSlot {
+  parentId: string;
+  prefix: string;
+  existingId?: string;
+}
+
+/**
+ * Hierarchical IPAM tree rooted at aggregates. Every operation returns a new
+ * array of roots and throws a RangeError when the change would break the tree.
+ */
+export class IPAMTree {
+  static addRoot(roots: IPAMNode[], prefix: string): IPAMNode[] {
+    const node = this.createNode(this.normalizePrefix(prefix));
+    this.assertNoOverlap(roots, node);
+    return this.insertSorted(roots, node);
+  }
+
+  static find(roots: IPAMNode[], id: string): IPAMNode | null {
+    for (const node of roots) {
+      if (node.id === id) return node;
+      const found = this.find(node.children, id);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  static update(roots: IPAMNode[], id: string, details: Partial<IPAMNodeDetails>): IPAMNode[] {
+    return this.mapNode(roots, id, node => ({ ...node, ...details }));
+  }
+
+  /** Removes a node and everything below it; its space becomes free in the parent. */
+  static remove(roots: IPAMNode[], id: string): IPAMNode[] {
+    return roots
+      .filter(node => node.id !== id)
+      .map(node => ({ ...node, children: this.remove(node.children, id) }));
+  }
+
+  /** Splits a leaf into every child prefix of the target length, all marked free. */
+  static subdivide(roots: IPAMNode[], id: string, targetPrefixLength: number): IPAMNode[] {
+    return this.mapNode(roots, id, node => {
+      const prefixLength = this.getPrefixLength(node.prefix);
+
+      if (node.children.length > 0) {
+        throw new RangeError(`${node.prefix} already has child allocations`);
+      }
+      if (targetPrefixLength <= prefixLength || targetPrefixLength > 128) {
+        throw new RangeError(`Target prefix length must be between /${prefixLength + 1} and /128`);
+      }
+      if (targetPrefixLength - prefixLength > MAX_SUBDIVIDE_BITS) {
+        throw new RangeError(`Subdivide at most ${MAX_SUBDIVIDE_BITS} bits at a time (up to /${prefixLength + MAX_SUBDIVIDE_BITS})`);
+      }
+
+      const children = Array.from(IPv6Subnetting.iterateSubnets(node.prefix, targetPrefixLength))
+        .map(subnet => this.createNode(IPv6Parser.parse(subnet.network).networkAddress));
+      return { ...node, children };
+    });
+  }
+
+  /**
+   * Allocates the lowest free prefix of the given length under a node, descending
+   * into free children. Returns the updated tree and the allocated prefix.
+   */
+  static allocateNextFree(
+    roots: IPAMNode[],
+    id: string,
+    prefixLength: number,
+    details: Omit<IPAMNodeDetails, 'status'> & { status?: AllocationStatus }
+  ): { roots: IPAMNode[]; prefix: string } {
+    const node = this.find(roots, id);
+    if (!node) {
+      throw new RangeError('Unknown allocation');
+    }
+
+    const nodePrefixLength = this.getPrefixLength(node.prefix);
+    if (!Number.isInteger(prefixLength) || prefixLength <= nodePrefixLength || prefixLength > 128) {
+      throw new RangeError(`Prefix length must be between /${nodePrefixLength + 1} and /128`);
+    }
+
+    const slot = this.findFreeSlot(node, prefixLength, true);
+    if (!slot) {
+      throw new RangeError(`No free /${prefixLength} left in ${node.prefix}`);
+    }
+
+    const allocation = { status: AllocationStatus.Allocated, ...details };
+    if (slot.existingId) {
+      return { roots: this.update(roots, slot.existingId, allocation), prefix: slot.prefix };
+    }
+
+    const child = { ...this.createNode(slot.prefix), ...allocation };
+    return {
+      roots: this.mapNode(roots, slot.parentId, parent => ({ ...parent, children: this.insertSorted(parent.children, child) })),
+      prefix: slot.prefix
+    };
+  }
+
+  /** Addresses of a node that are allocated or reserved, counting a non-free node as fully used. */
+  static getUsedAddresses(node: IPAMNode): bigint {
+    if (node.status !== AllocationStatus.Free) {
+      return IPv6Value.blockSize(this.getPrefixLength(node.prefix));
+    }
+    return node.children.reduce((sum, child) => sum + this.getUsedAddresses(child), 0n);
+  }
+
+  /** Share of a node's space used by its allocated or reserved descendants, in percent. */
+  static getUtilization(node: IPAMNode): number {
+    const used = node.children.reduce((sum, child) => sum + this.getUsedAddresses(child), 0n);
+    return percentOf(used, IPv6Value.blockSize(this.getPrefixLength(node.prefix)));
+  }
+
+  static toJSON(roots: IPAMNode[]): string {
+    return JSON.stringify({ version: EXPORT_VERSION, nodes: roots }, null, 2);
+  }
+
+  /** Parses and validates an exported tree; accepts the export envelope or a bare array of roots. */
+  static fromJSON(json: string): IPAMNode[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new RangeError('File is not valid JSON');
+    }
+
+    const nodes = Array.isArray(data) ? data : (data as { nodes?: unknown } | null)?.nodes;
+    if (!Array.isArray(nodes)) {
+      throw new RangeError('Expected an array of allocations');
+    }
+
+    const ids = new Set<string>();
+    return this.validateSiblings(nodes.map(node => this.validateNode(node, null, ids)));
+  }
+
+  /**
+   * Reads the stored tree. Unreadable data is reported rather than replaced with an
+   * empty tree, so the caller can keep it until the user resets or imports over it.
+   */
+  static load(): { roots: IPAMNode[]; error?: string } {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return { roots: stored ? this.fromJSON(stored) : [] };
+    } catch (error) {
+      return { roots: [], error: `Saved allocations could not be loaded: ${(error as Error).message}` };
+    }
+  }
+
+  /** Stores the tree; returns an error message instead of throwing when storage is full or unavailable. */
+  static save(roots: IPAMNode[]): string | null {
+    try {
+      localStorage.setItem(STORAGE_KEY, this.toJSON(roots));
+      return null;
+    } catch (error) {
+      return (error as Error).name === 'QuotaExceededError'
+        ? 'Browser storage is full; export the allocations to keep these changes'
+        : `Allocations could not be saved: ${(error as Error).message}`;
+    }
+  }
+
+  static getPrefixLength(prefix: string): number {
+    return parseInt(prefix.split('/')[1], 10);
+  }
+
+  private static findFreeSlot(node: IPAMNode, prefixLength: number, isTarget: boolean): FreeSlot | null {
+    if (!isTarget && this.getPrefixLength(node.prefix) === prefixLength) {
+      return node.children.length === 0 ? { parentId: node.id, prefix: node.prefix, existingId: node.id } : null;
+    }
+
+    const bounds = this.getRange(node.prefix);
+    let cursor: IPv6Value | null = bounds.start;
+
+    for (const child of node.children) {
+      const range = this.getRange(child.prefix);
+      if (cursor && cursor.compare(range.start) < 0) {
+        const prefix = this.firstAlignedBlock({ start: cursor, end: range.start.previous() }, prefixLength);
+        if (prefix) return { parentId: node.id, prefix };
+      }
+
+      if (child.status === AllocationStatus.Free && this.getPrefixLength(child.prefix) <= prefixLength) {
+        const slot = this.findFreeSlot(child, prefixLength, false);
+        if (slot) return slot;
+      }
+
+      cursor = range.end.equals(IPv6Value.MAX) ? null : range.end.next();
+    }
+
+    if (cursor && cursor.compare(bounds.end) <= 0) {
+      const prefix = this.firstAlignedBlock({ start: cursor, end: bounds.end }, prefixLength);
+      if (prefix) return { parentId: node.id, prefix };
+    }
+
+    return null;
+  }
+
+  /** Lowest prefix of the given length lying entirely inside the gap. */
+  private static firstAlignedBlock(gap: IPv6Range, prefixLength: number): string | null {
+    let start = gap.start.mask(prefixLength);
+    if (!start.equals(gap.start)) {
+      if (start.fillHostBits(prefixLength).equals(IPv6Value.MAX)) return null;
+      start = start.fillHostBits(prefixLength).next();
+    }
+
+    return start.fillHostBits(prefixLength).compare(gap.end) <= 0
+      ? `${IPv6Parser.format(start)}/${prefixLength}`
+      : null;
+  }
+
+  private static validateNode(value: unknown, parent: IPAMNode | null, ids: Set<string>): IPAMNode {
+    const raw = (value ?? {}) as Partial<Record<keyof IPAMNode, unknown>>;
+    if (typeof raw.prefix !== 'string') {
+      throw new RangeError('Every allocation needs a prefix');
+    }
+
+    const prefix = this.normalizePrefix(raw.prefix);
+    const status = Object.values(AllocationStatus).find(candidate => candidate === raw.status);
+    if (!status) {
+      throw new RangeError(`${prefix}: status must be free, allocated or reserved`);
+    }
+    if (typeof raw.id === 'string' && ids.has(raw.id)) {
+      throw new RangeError(`${prefix}: id ${raw.id} is used by another allocation`);
+    }
+
+    const node: IPAMNode = {
+      id: typeof raw.id === 'string' && raw.id.length > 0 ? raw.id : crypto.randomUUID(),
+      prefix,
+      status,
+      owner: typeof raw.owner === 'string' ? raw.owner : '',
+      description: typeof raw.description === 'string' ? raw.description : '',
+      children: []
+    };
+    ids.add(node.id);
+
+    if (parent) {
+      const parentRange = this.getRange(parent.prefix);
+      const range = this.getRange(prefix);
+      if (this.getPrefixLength(prefix) <= this.getPrefixLength(parent.prefix) ||
+          range.start.compare(parentRange.start) < 0 || range.end.compare(parentRange.end) > 0) {
+        throw new RangeError(`${prefix} is not inside its parent ${parent.prefix}`);
+      }
+    }
+
+    const children = Array.isArray(raw.children) ? raw.children : [];
+    node.children = this.validateSiblings(children.map(child => this.validateNode(child, node, ids)));
+    return node;
+  }
+
+  private static validateSiblings(nodes: IPAMNode[]): IPAMNode[] {
+    return nodes.reduce<IPAMNode[]>((siblings, node) => {
+      this.assertNoOverlap(siblings, node);
+      return this.insertSorted(siblings, node);
+    }, []);
+  }
+
+  private static normalizePrefix(prefix: string): string {
+    const parsed = IPv6Parser.parse(prefix.trim());
+    if (!parsed.isValid) {
+      throw new RangeError(`${prefix.trim() || 'Prefix'}: ${parsed.error?.message ?? 'invalid IPv6 prefix'}`);
+    }
+    if (parsed.hasHostBitsSet) {
+      throw new RangeError(`${prefix.trim()} has host bits set; did you mean ${parsed.networkAddress}?`);
+    }
+    return parsed.networkAddress;
+  }
+
+  private static assertNoOverlap(siblings: IPAMNode[], node: IPAMNode): void {
+    const range = this.getRange(node.prefix);
+    const overlapping = siblings.find(sibling => {
+      const other = this.getRange(sibling.prefix);
+      return range.start.compare(other.end) <= 0 && other.start.compare(range.end) <= 0;
+    });
+
+    if (overlapping) {
+      throw new RangeError(`${node.prefix} overlaps ${overlapping.prefix}`);
+    }
+  }
+
+  private static createNode(prefix: string): IPAMNode {
+    return {
+      id: crypto.randomUUID(),
+      prefix,
+      status: AllocationStatus.Free,
+      owner: '',
+      description: '',
+      children: []
+    };
+  }
+
+  private static insertSorted(nodes: IPAMNode[], node: IPAMNode): IPAMNode[] {
+    const start = this.getRange(node.prefix).start;
+    const index = nodes.findIndex(sibling => this.getRange(sibling.prefix).start.compare(start) > 0);
+    return index < 0 ? [...nodes, node] : [...nodes.slice(0, index), node, ...nodes.slice(index)];
+  }
+
+  private static mapNode(roots: IPAMNode[], id: string, transform: (node: IPAMNode) => IPAMNode): IPAMNode[] {
+    return roots.map(node => node.id === id
+      ? transform(node)
+      : { ...node, children: this.mapNode(node.children, id, transform) });
+  }
+
+  private static getRange(prefix: string): IPv6Range {
+    return IPv6Parser.getAddressBounds(IPv6Parser.parse(prefix));
+  }
+}
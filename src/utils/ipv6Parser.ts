@@ -1,206 +1,826 @@
-import { IPv6Address, ParsedIPv6, AddressType, AddressScope, RFCCompliance } from '../types/ipv6';
+import {
+  IPv6Address,
+  ParsedIPv6,
+  AddressType,
+  AddressScope,
+  RFCCompliance,
+  CompressOptions,
+  ParseError,
+  ParseErrorCode,
+  ParseOptions,
+  InputFormat,
+  AddressRangeInfo,
+  PrefixInputKind,
+  MacAddressInfo,
+  ComplianceStatus
+} from '../types/ipv6';
+import { IPv6Range, IPv6Value } from './ipv6Value';
+import { SpecialPurposeRegistry } from './specialPurposeRegistry';
+import { IPv6Transition } from './transition';
+import { EUI64 } from './eui64';
+import { IPv6Multicast } from './multicast';
+import { ULAGenerator } from './ulaGenerator';
+import { IPv6Anycast } from './anycast';
+
+interface AddressGroup {
+  text: string;
+  offset: number;
+}
 
 export class IPv6Parser {
-  static parse(input: string): IPv6Address {
+  static parse(input: string, options: ParseOptions = {}): IPv6Address {
     const trimmedInput = input.trim();
     
     try {
-      const parsed = this.parseIPv6String(trimmedInput);
+      const parsed = this.parseIPv6String(trimmedInput, options);
       
       if (!parsed.isValid) {
-        return {
-          input: trimmedInput,
-          isValid: false,
-          error: parsed.error,
-          expanded: '',
-          compressed: '',
-          binary: '',
-          hex: '',
-          integer: '',
-          base64: '',
-          networkAddress: '',
-          prefixLength: 0,
-          firstAddress: '',
-          lastAddress: '',
-          totalHosts: '',
-          totalSubnets: '',
-          reverseDNS: '',
-          addressType: AddressType.Reserved,
-          scope: AddressScope.Global,
-          isIPv4Mapped: false,
-          isIPv4Compatible: false,
-          isEUI64: false,
-          isSLAACCompatible: false,
-          rfcCompliance: []
-        };
+        return this.createInvalidResult(trimmedInput, parsed.error);
       }
 
-      const expanded = this.toExpanded(parsed.hextets);
-      const compressed = this.toCompressed(parsed.hextets);
-      const binary = this.toBinary(parsed.hextets);
-      const addressType = this.getAddressType(parsed.hextets);
-      const scope = this.getAddressScope(parsed.hextets, addressType);
-      
-      const networkHextets = this.getNetworkAddress(parsed.hextets, parsed.prefixLength);
-      const networkAddress = this.toCompressed(networkHextets);
-      
-      const { firstAddress, lastAddress } = this.getAddressRange(parsed.hextets, parsed.prefixLength);
-      const totalHosts = this.calculateTotalHosts(parsed.prefixLength);
-      const totalSubnets = this.calculateTotalSubnets(parsed.prefixLength);
-      
-      return {
-        input: trimmedInput,
-        isValid: true,
-        expanded,
-        compressed,
-        binary,
-        hex: this.toHex(parsed.hextets),
-        integer: this.toInteger(parsed.hextets),
-        base64: this.toBase64(parsed.hextets),
-        networkAddress: `${networkAddress}/${parsed.prefixLength}`,
-        prefixLength: parsed.prefixLength,
-        firstAddress,
-        lastAddress,
-        totalHosts,
-        totalSubnets,
-        reverseDNS: this.toReverseDNS(parsed.hextets),
-        addressType,
-        scope,
-        isIPv4Mapped: this.isIPv4Mapped(parsed.hextets),
-        isIPv4Compatible: this.isIPv4Compatible(parsed.hextets),
-        isEUI64: this.isEUI64(parsed.hextets),
-        isSLAACCompatible: parsed.prefixLength === 64,
-        rfcCompliance: this.getRFCCompliance(parsed.hextets, addressType)
-      };
+      return this.buildAddress(trimmedInput, parsed);
     } catch (error) {
-      return {
-        input: trimmedInput,
-        isValid: false,
-        error: error instanceof Error ? error.message : 'Unknown parsing error',
-        expanded: '',
-        compressed: '',
-        binary: '',
-        hex: '',
-        integer: '',
-        base64: '',
-        networkAddress: '',
-        prefixLength: 0,
-        firstAddress: '',
-        lastAddress: '',
-        totalHosts: '',
-        totalSubnets: '',
-        reverseDNS: '',
-        addressType: AddressType.Reserved,
-        scope: AddressScope.Global,
-        isIPv4Mapped: false,
-        isIPv4Compatible: false,
-        isEUI64: false,
-        isSLAACCompatible: false,
-        rfcCompliance: []
-      };
+      return this.createInvalidResult(trimmedInput, this.createUnknownError(trimmedInput, error));
+    }
+  }
+
+  /**
+   * Parses any representation the calculator can output: IPv6 text, 128-bit decimal integer,
+   * 0x-prefixed hex, base64, 128-bit binary or an ip6.arpa name, and reports which one was found.
+   */
+  static parseAny(input: string, options: ParseOptions = {}): IPv6Address {
+    const trimmedInput = input.trim();
+    const inputFormat = this.detectFormat(trimmedInput);
+
+    if (inputFormat === InputFormat.IPv6Text) {
+      return { ...this.parse(trimmedInput, options), inputFormat };
+    }
+
+    try {
+      const parsed = this.parseEncoded(trimmedInput, inputFormat);
+
+      if (!parsed.isValid) {
+        return { ...this.createInvalidResult(trimmedInput, parsed.error), inputFormat };
+      }
+
+      return { ...this.buildAddress(trimmedInput, parsed, inputFormat), inputFormat };
+    } catch (error) {
+      return { ...this.createInvalidResult(trimmedInput, this.createUnknownError(trimmedInput, error)), inputFormat };
+    }
+  }
+
+  /** Numeric value of a valid parsed address. */
+  static toValue(address: IPv6Address): IPv6Value {
+    if (!address.isValid) {
+      throw new Error('Cannot take the value of an invalid address');
+    }
+    return IPv6Value.fromBigInt(BigInt(address.integer));
+  }
+
+  /** Network prefix of a valid address as input text, keeping its zone ID (fe80::1%eth0/64 gives fe80::%eth0/64). */
+  static getNetworkInput(address: IPv6Address): string {
+    if (!address.zoneId) {
+      return address.networkAddress;
+    }
+
+    // Zones that would not survive a re-parse as plain text are written in the RFC 6874 %25 form
+    const zone = /^[\w.~-]+$/.test(address.zoneId) && !address.zoneId.startsWith('25')
+      ? address.zoneId
+      : `25${encodeURIComponent(address.zoneId)}`;
+    const [network, prefixLength] = address.networkAddress.split('/');
+    return `${network}%${zone}/${prefixLength}`;
+  }
+
+  /** RFC 5952 compressed text for a value. */
+  static format(value: IPv6Value, options: CompressOptions = {}): string {
+    return this.toCompressed(value.toHextets(), options);
+  }
+
+  /** First and last address covered by a valid parsed address and its prefix length. */
+  static getAddressBounds(address: IPv6Address): IPv6Range {
+    return this.getBounds(this.toValue(address), address.prefixLength);
+  }
+
+  /** Parses an address range written as "start - end" or "start + count". */
+  static parseRange(input: string, options: ParseOptions = {}): AddressRangeInfo {
+    const trimmedInput = input.trim();
+    const invalid = (error: ParseError): AddressRangeInfo => ({
+      input: trimmedInput,
+      isValid: false,
+      error,
+      firstAddress: '',
+      lastAddress: '',
+      size: 0n
+    });
+
+    const operatorIndex = this.findRangeOperator(trimmedInput);
+    if (operatorIndex === -1) {
+      return invalid(this.createError(
+        trimmedInput,
+        ParseErrorCode.InvalidRange,
+        'Range needs a start and an end or count',
+        0,
+        trimmedInput.length,
+        trimmedInput.includes('%')
+          ? "Write it as 'start - end' or 'start + count', with spaces around the operator after a zone ID"
+          : "Write it as 'start - end' or 'start + count'"
+      ).error!);
+    }
+
+    const operator = trimmedInput[operatorIndex];
+    const startText = trimmedInput.slice(0, operatorIndex).trimEnd();
+    const rawEnd = trimmedInput.slice(operatorIndex + 1);
+    const endText = rawEnd.trim();
+    const endOffset = operatorIndex + 1 + (rawEnd.length - rawEnd.trimStart().length);
+
+    const start = this.parseRangeEndpoint(trimmedInput, startText, 0, options);
+    if (!start.isValid) {
+      return invalid(start.error!);
+    }
+    const startValue = IPv6Value.fromHextets(start.hextets);
+
+    let endValue: IPv6Value;
+    if (operator === '-') {
+      const end = this.parseRangeEndpoint(trimmedInput, endText, endOffset, options);
+      if (!end.isValid) {
+        return invalid(end.error!);
+      }
+      endValue = IPv6Value.fromHextets(end.hextets);
+
+      if (endValue.compare(startValue) < 0) {
+        return invalid(this.createError(
+          trimmedInput,
+          ParseErrorCode.InvalidRange,
+          'Range end is below its start',
+          endOffset,
+          endText.length,
+          'Swap the two addresses'
+        ).error!);
+      }
+    } else {
+      if (!/^(\d+|0x[0-9a-f]+)$/i.test(endText) || BigInt(endText) < 1n) {
+        return invalid(this.createError(
+          trimmedInput,
+          ParseErrorCode.InvalidRange,
+          'Address count must be a positive integer',
+          endOffset,
+          Math.max(endText.length, 1),
+          'Use a decimal or 0x-prefixed hexadecimal count'
+        ).error!);
+      }
+
+      const last = startValue.toBigInt() + BigInt(endText) - 1n;
+      if (last > IPv6Value.MAX.toBigInt()) {
+        return invalid(this.createError(
+          trimmedInput,
+          ParseErrorCode.OutOfRange,
+          'Range runs past the end of the address space',
+          endOffset,
+          endText.length,
+          `The count can be at most ${startValue.distanceTo(IPv6Value.MAX) + 1n} from this start`
+        ).error!);
+      }
+      endValue = IPv6Value.fromBigInt(last);
+    }
+
+    return {
+      input: trimmedInput,
+      isValid: true,
+      firstAddress: this.format(startValue),
+      lastAddress: this.format(endValue),
+      size: startValue.distanceTo(endValue) + 1n
+    };
+  }
+
+  static detectFormat(input: string): InputFormat {
+    if (/\.ip6\.arpa\.?$/i.test(input)) {
+      return InputFormat.ReverseDNS;
+    }
+
+    if (/^0x[0-9a-f]+(\/\d+)?$/i.test(input)) {
+      return InputFormat.Hex;
+    }
+
+    if (/^(0b)?[01\s]+$/i.test(input) && input.replace(/^0b|\s/gi, '').length === 128) {
+      return InputFormat.Binary;
+    }
+
+    if (/^\d+(\/\d+)?$/.test(input)) {
+      return InputFormat.Integer;
+    }
+
+    if (/^[A-Za-z0-9+/]{22}(==)?$/.test(input)) {
+      return InputFormat.Base64;
+    }
+
+    return InputFormat.IPv6Text;
+  }
+
+  private static buildAddress(
+    trimmedInput: string,
+    parsed: ParsedIPv6,
+    inputFormat: InputFormat = InputFormat.IPv6Text
+  ): IPv6Address {
+    const expanded = this.toExpanded(parsed.hextets);
+    const compressed = this.toCompressed(parsed.hextets);
+    const binary = this.toBinary(parsed.hextets);
+    const value = IPv6Value.fromHextets(parsed.hextets);
+    const linkPrefixLength = parsed.hasPrefix ? parsed.prefixLength : 64;
+    const addressType = this.getAddressType(parsed.hextets, linkPrefixLength);
+    const specialPurpose = SpecialPurposeRegistry.lookup(value) ?? undefined;
+    const scope = this.getAddressScope(parsed.hextets, addressType);
+    
+    const networkHextets = this.getNetworkAddress(parsed.hextets, parsed.prefixLength);
+    const networkAddress = this.toCompressed(networkHextets);
+    
+    const { firstAddress, lastAddress } = this.getAddressRange(parsed.hextets, parsed.prefixLength);
+    const hasHostBitsSet = !value.isNetworkAddress(parsed.prefixLength);
+    const totalHosts = this.calculateTotalHosts(parsed.prefixLength);
+    const totalSubnets = this.calculateTotalSubnets(parsed.prefixLength);
+    
+    return {
+      input: trimmedInput,
+      isValid: true,
+      expanded,
+      compressed,
+      mixedNotation: this.hasEmbeddedIPv4(parsed.hextets)
+        ? this.toCompressed(parsed.hextets, { mixedIPv4: true })
+        : undefined,
+      zoneId: parsed.zoneId,
+      binary,
+      hex: this.toHex(parsed.hextets),
+      integer: this.toInteger(parsed.hextets),
+      base64: this.toBase64(parsed.hextets),
+      networkAddress: `${networkAddress}/${parsed.prefixLength}`,
+      prefixLength: parsed.prefixLength,
+      hasHostBitsSet,
+      inputKind: this.getInputKind(parsed, hasHostBitsSet),
+      firstAddress,
+      lastAddress,
+      totalHosts,
+      totalSubnets,
+      reverseDNS: this.toReverseDNS(parsed.hextets),
+      addressType,
+      specialPurpose,
+      teredo: IPv6Transition.decodeTeredo(value) ?? undefined,
+      embeddedIPv4: IPv6Transition.getEmbeddedIPv4(value),
+      macAddress: this.getMacAddress(value),
+      multicast: IPv6Multicast.analyze(value) ?? undefined,
+      // Without an explicit prefix, look for collisions on a typical /64 link
+      solicitedNode: IPv6Multicast.getSolicitedNode(value, linkPrefixLength) ?? undefined,
+      anycast: IPv6Anycast.analyze(value, parsed.prefixLength, parsed.hasPrefix === true) ?? undefined,
+      warnings: ULAGenerator.getWarnings(value, parsed.prefixLength),
+      scope,
+      isIPv4Mapped: this.isIPv4Mapped(parsed.hextets),
+      isIPv4Compatible: this.isIPv4Compatible(parsed.hextets),
+      isEUI64: this.isEUI64(parsed.hextets),
+      isSLAACCompatible: parsed.prefixLength === 64,
+      rfcCompliance: this.getRFCCompliance(
+        inputFormat === InputFormat.IPv6Text ? trimmedInput : null,
+        parsed,
+        addressType,
+        SpecialPurposeRegistry.getAddressType(value) === AddressType.Documentation ? specialPurpose?.rfc : undefined
+      )
+    };
+  }
+
+  private static getInputKind(parsed: ParsedIPv6, hasHostBitsSet: boolean): PrefixInputKind {
+    if (!parsed.hasPrefix) {
+      return PrefixInputKind.Address;
     }
+    
+    // Bits beyond the prefix length make this an interface address, not a network prefix
+    return hasHostBitsSet ? PrefixInputKind.InterfaceWithPrefix : PrefixInputKind.NetworkPrefix;
+  }
+
+  private static createUnknownError(input: string, error: unknown): ParseError {
+    return {
+      code: ParseErrorCode.Unknown,
+      message: error instanceof Error ? error.message : 'Unknown parsing error',
+      offset: 0,
+      length: input.length,
+      token: input
+    };
   }
 
-  private static parseIPv6String(input: string): ParsedIPv6 {
+  private static createInvalidResult(input: string, error?: ParseError): IPv6Address {
+    return {
+      input,
+      isValid: false,
+      error,
+      expanded: '',
+      compressed: '',
+      binary: '',
+      hex: '',
+      integer: '',
+      base64: '',
+      networkAddress: '',
+      prefixLength: 0,
+      hasHostBitsSet: false,
+      inputKind: PrefixInputKind.Address,
+      firstAddress: '',
+      lastAddress: '',
+      totalHosts: '',
+      totalSubnets: '',
+      reverseDNS: '',
+      addressType: AddressType.Reserved,
+      embeddedIPv4: [],
+      warnings: [],
+      scope: AddressScope.Global,
+      isIPv4Mapped: false,
+      isIPv4Compatible: false,
+      isEUI64: false,
+      isSLAACCompatible: false,
+      rfcCompliance: []
+    };
+  }
+
+  private static createError(
+    input: string,
+    code: ParseErrorCode,
+    message: string,
+    offset: number,
+    length: number,
+    suggestion?: string
+  ): ParsedIPv6 {
+    return {
+      hextets: [],
+      prefixLength: 0,
+      isValid: false,
+      error: { code, message, offset, length, token: input.slice(offset, offset + length), suggestion }
+    };
+  }
+
+  private static parseIPv6String(input: string, options: ParseOptions = {}): ParsedIPv6 {
+    const strict = options.strict ?? false;
+
+    if (input === '') {
+      return this.createError(input, ParseErrorCode.EmptyInput, 'No address entered', 0, 0, 'Enter an address such as 2001:db8::1');
+    }
+
     let address = input;
     let prefixLength = 128;
 
     // Extract prefix length
-    const prefixMatch = address.match(/^(.+)\/(\d+)$/);
-    if (prefixMatch) {
-      address = prefixMatch[1];
-      prefixLength = parseInt(prefixMatch[2], 10);
+    const slashIndex = address.lastIndexOf('/');
+    if (slashIndex !== -1) {
+      const prefixText = address.slice(slashIndex + 1);
+      address = address.slice(0, slashIndex);
+      prefixLength = parseInt(prefixText, 10);
       
-      if (prefixLength < 0 || prefixLength > 128) {
-        return { hextets: [], prefixLength: 0, isValid: false, error: 'Invalid prefix length' };
+      if (!/^\d{1,3}$/.test(prefixText) || prefixLength > 128) {
+        return this.createError(
+          input,
+          ParseErrorCode.InvalidPrefixLength,
+          'Invalid prefix length',
+          slashIndex + 1,
+          Math.max(prefixText.length, 1),
+          'Use a decimal prefix length between 0 and 128'
+        );
+      }
+
+      if (strict && /^0\d/.test(prefixText)) {
+        return this.createError(
+          input,
+          ParseErrorCode.InvalidPrefixLength,
+          'Prefix length has a leading zero',
+          slashIndex + 1,
+          prefixText.length,
+          `Write it as /${prefixLength}`
+        );
+      }
+    }
+
+    // Extract zone identifier (RFC 4007 section 11), e.g. fe80::1%eth0 or fe80::1%25eth0
+    let zoneId: string | undefined;
+    const zoneIndex = address.indexOf('%');
+    if (zoneIndex !== -1) {
+      zoneId = this.decodeZoneId(address.slice(zoneIndex + 1));
+
+      if (!zoneId) {
+        return this.createError(
+          input,
+          ParseErrorCode.InvalidZoneId,
+          'Invalid zone identifier',
+          zoneIndex,
+          address.length - zoneIndex,
+          'Write the zone as an interface name or index, e.g. %eth0 or %25eth0'
+        );
+      }
+
+      address = address.slice(0, zoneIndex);
+    }
+
+    if (address === '') {
+      return this.createError(input, ParseErrorCode.EmptyInput, 'No address entered', 0, 0, 'Enter an address such as 2001:db8::1');
+    }
+
+    // Split into groups, remembering where the "::" sits and each group's character offset
+    const groups: AddressGroup[] = [];
+    let compressionIndex = -1;
+    let i = 0;
+
+    while (i < address.length) {
+      if (address[i] !== ':') {
+        let end = i;
+        while (end < address.length && address[end] !== ':') end++;
+        groups.push({ text: address.slice(i, end), offset: i });
+        i = end;
+        continue;
       }
+
+      if (address[i + 1] === ':') {
+        if (compressionIndex !== -1) {
+          return this.createError(
+            input,
+            ParseErrorCode.MultipleDoubleColon,
+            'Multiple :: not allowed',
+            i,
+            2,
+            "Use '::' only once and write the other run of zeros as 0:0"
+          );
+        }
+        compressionIndex = groups.length;
+        i += 2;
+
+        let extraColons = 0;
+        while (address[i + extraColons] === ':') extraColons++;
+        if (extraColons > 0) {
+          if (strict) {
+            return this.createError(
+              input,
+              ParseErrorCode.EmptyGroup,
+              'Too many consecutive colons',
+              i,
+              extraColons,
+              "Remove the extra ':' so that only '::' remains"
+            );
+          }
+          i += extraColons;
+        }
+        continue;
+      }
+
+      // A single colon must sit between two groups
+      if (i === 0 || i === address.length - 1) {
+        if (strict) {
+          return this.createError(
+            input,
+            ParseErrorCode.EmptyGroup,
+            i === 0 ? 'Address cannot start with a single colon' : 'Address cannot end with a single colon',
+            i,
+            1,
+            i === 0 ? "Use '::' to compress leading zeros or remove the ':'" : "Use '::' to compress trailing zeros or remove the ':'"
+          );
+        }
+      }
+      i++;
     }
 
-    // Handle special cases
-    if (address === '::') {
-      return { hextets: new Array(8).fill(0), prefixLength, isValid: true };
+    // A trailing dotted-quad stands in for the last two hextets (RFC 4291 section 2.2)
+    const hextetGroups: number[] = [];
+    const ipv4Tail: number[] = [];
+
+    for (let index = 0; index < groups.length; index++) {
+      const group = groups[index];
+      const isLast = index === groups.length - 1 && compressionIndex !== groups.length;
+
+      if (group.text.includes('.')) {
+        if (!isLast) {
+          return this.createError(
+            input,
+            ParseErrorCode.MisplacedIPv4,
+            'Embedded IPv4 address is only allowed in the last 32 bits',
+            group.offset,
+            group.text.length,
+            'Move the dotted-quad to the end of the address'
+          );
+        }
+
+        const ipv4 = this.parseIPv4Group(input, group);
+        if (!ipv4.isValid) {
+          return ipv4;
+        }
+        ipv4Tail.push(...ipv4.hextets);
+        continue;
+      }
+
+      const badCharacter = group.text.search(/[^0-9a-f]/i);
+      if (badCharacter !== -1) {
+        return this.createError(
+          input,
+          ParseErrorCode.InvalidCharacter,
+          `Invalid character '${group.text[badCharacter]}' in hextet`,
+          group.offset + badCharacter,
+          1,
+          'Hextets may only contain the hexadecimal digits 0-9 and a-f'
+        );
+      }
+
+      const hexValue = parseInt(group.text, 16);
+      if (group.text.length > 4 && (strict || hexValue > 0xffff)) {
+        return this.createError(
+          input,
+          hexValue > 0xffff ? ParseErrorCode.InvalidHextet : ParseErrorCode.HextetTooLong,
+          hexValue > 0xffff ? 'Hextet value exceeds ffff' : 'Hextet has more than four hexadecimal digits',
+          group.offset,
+          group.text.length,
+          hexValue > 0xffff
+            ? 'Each group holds 16 bits: use at most four hexadecimal digits'
+            : `Drop the leading zeros and write it as ${hexValue.toString(16)}`
+        );
+      }
+      hextetGroups.push(hexValue);
     }
 
-    // Handle IPv4-mapped addresses
-    const ipv4MappedMatch = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
-    if (ipv4MappedMatch) {
-      const ipv4Parts = ipv4MappedMatch[1].split('.').map(Number);
-      if (ipv4Parts.every(part => part >= 0 && part <= 255)) {
-        const hextets = [0, 0, 0, 0, 0, 0xffff, 
-                        (ipv4Parts[0] << 8) | ipv4Parts[1], 
-                        (ipv4Parts[2] << 8) | ipv4Parts[3]];
-        return { hextets, prefixLength, isValid: true };
+    const explicitGroups = hextetGroups.length + ipv4Tail.length;
+    const lastGroup = groups[groups.length - 1];
+
+    if (explicitGroups > 8 || (compressionIndex !== -1 && explicitGroups === 8 && strict)) {
+      if (explicitGroups === 8) {
+        const compressionOffset = address.indexOf('::');
+        return this.createError(
+          input,
+          ParseErrorCode.RedundantCompression,
+          "'::' must stand for at least one group of zeros",
+          compressionOffset,
+          2,
+          "All eight groups are present: replace '::' with a single ':'"
+        );
       }
+
+      const firstExtra = groups[Math.max(0, groups.length - (explicitGroups - 8))];
+      return this.createError(
+        input,
+        ParseErrorCode.TooManyGroups,
+        'Too many groups in address',
+        firstExtra.offset,
+        address.length - firstExtra.offset,
+        'An IPv6 address has exactly eight 16-bit groups'
+      );
     }
 
-    // Split by :: for compression
-    const parts = address.split('::');
-    if (parts.length > 2) {
-      return { hextets: [], prefixLength: 0, isValid: false, error: 'Multiple :: not allowed' };
+    if (compressionIndex === -1 && explicitGroups < 8) {
+      return this.createError(
+        input,
+        ParseErrorCode.TooFewGroups,
+        'Invalid IPv6 address format',
+        0,
+        lastGroup ? lastGroup.offset + lastGroup.text.length : address.length,
+        `Only ${explicitGroups} of 8 groups present: add the missing groups or use '::' for a run of zeros`
+      );
     }
 
-    let leftParts: string[] = [];
-    let rightParts: string[] = [];
+    // Expand the "::" into as many zero hextets as are missing
+    const hextets = [...hextetGroups, ...ipv4Tail];
+    if (compressionIndex !== -1) {
+      hextets.splice(compressionIndex, 0, ...new Array(8 - explicitGroups).fill(0));
+    }
 
-    if (parts.length === 2) {
-      leftParts = parts[0] ? parts[0].split(':') : [];
-      rightParts = parts[1] ? parts[1].split(':') : [];
-    } else {
-      leftParts = parts[0].split(':');
+    if (zoneId && !this.isScopedAddress(hextets)) {
+      return this.createError(
+        input,
+        ParseErrorCode.ZoneNotAllowed,
+        'Zone identifier is only allowed on link-local or interface/link-local multicast addresses',
+        zoneIndex,
+        zoneId.length + 1,
+        'Remove the zone identifier from this global-scope address'
+      );
     }
 
-    // Validate and convert hex parts
-    const hextets: number[] = [];
-    
-    // Add left parts
-    for (const part of leftParts) {
-      if (part === '') continue;
-      const hexValue = parseInt(part, 16);
-      if (isNaN(hexValue) || hexValue > 0xffff) {
-        return { hextets: [], prefixLength: 0, isValid: false, error: 'Invalid hexadecimal value' };
+    return { hextets, prefixLength, hasPrefix: slashIndex !== -1, zoneId, isValid: true };
+  }
+
+  private static parseEncoded(input: string, format: InputFormat): ParsedIPv6 {
+    let body = input;
+    let prefixLength = 128;
+    let hasPrefix = false;
+
+    // Base64 uses '/' in its alphabet, so only the other numeric forms take a prefix suffix
+    if (format === InputFormat.Integer || format === InputFormat.Hex) {
+      const slashIndex = input.indexOf('/');
+      if (slashIndex !== -1) {
+        body = input.slice(0, slashIndex);
+        prefixLength = parseInt(input.slice(slashIndex + 1), 10);
+        hasPrefix = true;
+
+        if (prefixLength > 128) {
+          return this.createError(
+            input,
+            ParseErrorCode.InvalidPrefixLength,
+            'Invalid prefix length',
+            slashIndex + 1,
+            input.length - slashIndex - 1,
+            'Use a decimal prefix length between 0 and 128'
+          );
+        }
       }
-      hextets.push(hexValue);
     }
 
-    // Add zeros for compression
-    if (parts.length === 2) {
-      const zerosNeeded = 8 - leftParts.filter(p => p !== '').length - rightParts.filter(p => p !== '').length;
-      for (let i = 0; i < zerosNeeded; i++) {
-        hextets.push(0);
+    let value: bigint;
+
+    switch (format) {
+      case InputFormat.Integer:
+        value = BigInt(body);
+        break;
+      case InputFormat.Hex:
+        value = BigInt(body);
+        break;
+      case InputFormat.Binary:
+        value = BigInt('0b' + body.replace(/^0b|\s/gi, ''));
+        break;
+      case InputFormat.Base64: {
+        const bytes = atob(body.endsWith('==') ? body : body + '==');
+        value = 0n;
+        for (let i = 0; i < bytes.length; i++) {
+          value = (value << 8n) | BigInt(bytes.charCodeAt(i));
+        }
+        break;
       }
+      case InputFormat.ReverseDNS:
+        return this.parseReverseDNS(input);
+      default:
+        return this.createError(input, ParseErrorCode.Unknown, 'Unsupported input format', 0, input.length);
     }
 
-    // Add right parts
-    for (const part of rightParts) {
-      if (part === '') continue;
-      const hexValue = parseInt(part, 16);
-      if (isNaN(hexValue) || hexValue > 0xffff) {
-        return { hextets: [], prefixLength: 0, isValid: false, error: 'Invalid hexadecimal value' };
+    if (value >= 1n << 128n) {
+      return this.createError(
+        input,
+        ParseErrorCode.OutOfRange,
+        'Value does not fit in 128 bits',
+        0,
+        body.length,
+        'The largest IPv6 integer is 340282366920938463463374607431768211455'
+      );
+    }
+
+    return { hextets: IPv6Value.fromBigInt(value).toHextets(), prefixLength, hasPrefix, isValid: true };
+  }
+
+  private static parseReverseDNS(input: string): ParsedIPv6 {
+    const name = input.replace(/\.?ip6\.arpa\.?$/i, '');
+    const nibbles = name === '' ? [] : name.split('.');
+
+    let offset = 0;
+    for (const nibble of nibbles) {
+      if (!/^[0-9a-f]$/i.test(nibble)) {
+        return this.createError(
+          input,
+          ParseErrorCode.InvalidCharacter,
+          'Reverse DNS labels must be single hexadecimal nibbles',
+          offset,
+          Math.max(nibble.length, 1),
+          'Each label between dots holds exactly one hex digit, least significant first'
+        );
       }
-      hextets.push(hexValue);
+      offset += nibble.length + 1;
+    }
+
+    if (nibbles.length > 32) {
+      return this.createError(
+        input,
+        ParseErrorCode.TooManyGroups,
+        'Reverse DNS name has more than 32 nibbles',
+        0,
+        name.length,
+        'A full ip6.arpa name has exactly 32 nibble labels'
+      );
+    }
+
+    // A shorter name is a delegated zone covering a nibble-aligned prefix
+    const hexDigits = nibbles.reverse().join('').padEnd(32, '0');
+    return {
+      hextets: IPv6Value.fromBigInt(BigInt('0x' + hexDigits)).toHextets(),
+      prefixLength: nibbles.length * 4,
+      hasPrefix: nibbles.length < 32,
+      isValid: true
+    };
+  }
+
+  /** Index of the first '-' or '+' outside a zone ID; a zone runs from '%' to the next whitespace. */
+  private static findRangeOperator(input: string): number {
+    let inZone = false;
+    for (let i = 0; i < input.length; i++) {
+      const character = input[i];
+      if (character === '%') {
+        inZone = true;
+      } else if (/\s/.test(character)) {
+        inZone = false;
+      } else if (!inZone && (character === '-' || character === '+')) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private static parseRangeEndpoint(input: string, text: string, offset: number, options: ParseOptions): ParsedIPv6 {
+    if (text.includes('/')) {
+      const slashIndex = text.indexOf('/');
+      return this.createError(
+        input,
+        ParseErrorCode.InvalidRange,
+        'Range endpoints are single addresses',
+        offset + slashIndex,
+        text.length - slashIndex,
+        'Remove the prefix length from the range endpoint'
+      );
+    }
+
+    const parsed = this.parseIPv6String(text, options);
+    if (!parsed.isValid && parsed.error) {
+      // Report positions relative to the whole range expression
+      const shiftedOffset = parsed.error.offset + offset;
+      parsed.error = {
+        ...parsed.error,
+        offset: shiftedOffset,
+        token: input.slice(shiftedOffset, shiftedOffset + parsed.error.length)
+      };
+    }
+    return parsed;
+  }
+
+  private static decodeZoneId(rawZone: string): string | undefined {
+    let zone = rawZone;
+
+    // RFC 6874 URI form encodes the delimiter as "%25"; a purely numeric zone is an interface index
+    if (zone.startsWith('25') && zone.length > 2 && !/^\d+$/.test(zone)) {
+      try {
+        zone = decodeURIComponent(zone.slice(2));
+      } catch {
+        return undefined;
+      }
+    }
+
+    if (!/^[^\s%/]+$/.test(zone)) {
+      return undefined;
+    }
+
+    return zone;
+  }
+
+  private static parseIPv4Group(input: string, group: AddressGroup): ParsedIPv6 {
+    const octets = group.text.split('.');
+    if (octets.length !== 4) {
+      return this.createError(
+        input,
+        ParseErrorCode.InvalidIPv4,
+        'Invalid embedded IPv4 address',
+        group.offset,
+        group.text.length,
+        'Write the embedded IPv4 address as four dotted decimal octets, e.g. 192.0.2.1'
+      );
     }
 
-    if (hextets.length !== 8) {
-      return { hextets: [], prefixLength: 0, isValid: false, error: 'Invalid IPv6 address format' };
+    // Decimal octets only: no leading zeros (ambiguous octal) and within 0-255
+    let octetOffset = group.offset;
+    for (const octet of octets) {
+      if (!/^(0|[1-9]\d{0,2})$/.test(octet) || parseInt(octet, 10) > 255) {
+        return this.createError(
+          input,
+          ParseErrorCode.InvalidIPv4,
+          'Invalid embedded IPv4 address',
+          octetOffset,
+          Math.max(octet.length, 1),
+          /^0\d+$/.test(octet)
+            ? `Remove the leading zeros: ${parseInt(octet, 10)}`
+            : 'Each IPv4 octet must be a decimal number from 0 to 255'
+        );
+      }
+      octetOffset += octet.length + 1;
     }
 
-    return { hextets, prefixLength, isValid: true };
+    const values = octets.map(octet => parseInt(octet, 10));
+    return {
+      hextets: [(values[0] << 8) | values[1], (values[2] << 8) | values[3]],
+      prefixLength: 0,
+      isValid: true
+    };
   }
 
   private static toExpanded(hextets: number[]): string {
     return hextets.map(h => h.toString(16).padStart(4, '0')).join(':');
   }
 
-  private static toCompressed(hextets: number[]): string {
-    let expanded = this.toExpanded(hextets);
+  private static toCompressed(hextets: number[], options: CompressOptions = {}): string {
+    // RFC 5952 section 5: keep the dotted-quad for addresses that embed an IPv4 address
+    if (options.mixedIPv4 && this.hasEmbeddedIPv4(hextets)) {
+      const head = this.compressHextets(hextets.slice(0, 6));
+      const ipv4 = [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff].join('.');
+      return head.endsWith('::') ? head + ipv4 : `${head}:${ipv4}`;
+    }
+
+    return this.compressHextets(hextets);
+  }
+
+  private static compressHextets(hextets: number[]): string {
+    const parts = hextets.map(h => h.toString(16));
     
     // Find longest sequence of zeros
     const zeroSequences = [];
     let currentSequence = { start: -1, length: 0 };
     
-    const parts = expanded.split(':');
-    for (let i = 0; i < parts.length; i++) {
-      if (parts[i] === '0000') {
+    for (let i = 0; i < hextets.length; i++) {
+      if (hextets[i] === 0) {
         if (currentSequence.start === -1) {
           currentSequence.start = i;
           currentSequence.length = 1;
@@ -220,27 +840,18 @@ export class IPv6Parser {
     }
 
     // Find longest sequence (prefer leftmost if equal)
-    let longestSequence = zeroSequences.reduce((longest, current) => 
+    const longestSequence = zeroSequences.reduce((longest, current) => 
       current.length > longest.length ? current : longest, { start: -1, length: 0 });
 
     if (longestSequence.length > 1) {
-      const beforeCompression = parts.slice(0, longestSequence.start).map(p => parseInt(p, 16).toString(16));
-      const afterCompression = parts.slice(longestSequence.start + longestSequence.length).map(p => parseInt(p, 16).toString(16));
-      
-      let result = beforeCompression.join(':');
-      if (longestSequence.start === 0) {
-        result = '::' + afterCompression.join(':');
-      } else if (longestSequence.start + longestSequence.length === 8) {
-        result = beforeCompression.join(':') + '::';
-      } else {
-        result = beforeCompression.join(':') + '::' + afterCompression.join(':');
-      }
+      const beforeCompression = parts.slice(0, longestSequence.start);
+      const afterCompression = parts.slice(longestSequence.start + longestSequence.length);
       
-      return result;
+      return beforeCompression.join(':') + '::' + afterCompression.join(':');
     }
 
-    // No compression possible, just remove leading zeros
-    return parts.map(p => parseInt(p, 16).toString(16)).join(':');
+    // No compression possible, leading zeros are already dropped
+    return parts.join(':');
   }
 
   private static toBinary(hextets: number[]): string {
@@ -252,12 +863,7 @@ export class IPv6Parser {
   }
 
   private static toInteger(hextets: number[]): string {
-    let result = BigInt(0);
-    for (let i = 0; i < hextets.length; i++) {
-      result = result << 16n;
-      result = result | BigInt(hextets[i]);
-    }
-    return result.toString();
+    return IPv6Value.fromHextets(hextets).toBigInt().toString();
   }
 
   private static toBase64(hextets: number[]): string {
@@ -270,48 +876,22 @@ export class IPv6Parser {
   }
 
   private static getNetworkAddress(hextets: number[], prefixLength: number): number[] {
-    const networkHextets = [...hextets];
-    
-    const fullHextets = Math.floor(prefixLength / 16);
-    const remainingBits = prefixLength % 16;
-    
-    // Zero out hextets beyond the prefix
-    for (let i = fullHextets; i < 8; i++) {
-      if (i === fullHextets && remainingBits > 0) {
-        // Partial hextet - mask the remaining bits
-        const mask = (0xffff << (16 - remainingBits)) & 0xffff;
-        networkHextets[i] = networkHextets[i] & mask;
-      } else {
-        networkHextets[i] = 0;
-      }
-    }
-    
-    return networkHextets;
+    return IPv6Value.fromHextets(hextets).mask(prefixLength).toHextets();
   }
 
   private static getAddressRange(hextets: number[], prefixLength: number): { firstAddress: string, lastAddress: string } {
-    const networkHextets = this.getNetworkAddress(hextets, prefixLength);
-    const lastHextets = [...networkHextets];
-    
-    const fullHextets = Math.floor(prefixLength / 16);
-    const remainingBits = prefixLength % 16;
-    
-    // Set all host bits to 1 for last address
-    for (let i = fullHextets; i < 8; i++) {
-      if (i === fullHextets && remainingBits > 0) {
-        const hostMask = (1 << (16 - remainingBits)) - 1;
-        lastHextets[i] = lastHextets[i] | hostMask;
-      } else {
-        lastHextets[i] = 0xffff;
-      }
-    }
+    const { start, end } = this.getBounds(IPv6Value.fromHextets(hextets), prefixLength);
     
     return {
-      firstAddress: this.toCompressed(networkHextets),
-      lastAddress: this.toCompressed(lastHextets)
+      firstAddress: this.toCompressed(start.toHextets()),
+      lastAddress: this.toCompressed(end.toHextets())
     };
   }
 
+  private static getBounds(value: IPv6Value, prefixLength: number): IPv6Range {
+    return { start: value.mask(prefixLength), end: value.fillHostBits(prefixLength) };
+  }
+
   private static calculateTotalHosts(prefixLength: number): string {
     const hostBits = 128 - prefixLength;
     if (hostBits >= 64) {
@@ -335,48 +915,35 @@ export class IPv6Parser {
     return nibbles.join('.') + '.ip6.arpa';
   }
 
-  private static getAddressType(hextets: number[]): AddressType {
-    // Check for specific address types
-    if (hextets.every(h => h === 0)) {
-      return AddressType.Unspecified;
-    }
-    
-    if (hextets.slice(0, 7).every(h => h === 0) && hextets[7] === 1) {
-      return AddressType.Loopback;
-    }
-    
-    if (hextets[0] === 0xfe80) {
-      return AddressType.LinkLocal;
+  private static getAddressType(hextets: number[], linkPrefixLength: number): AddressType {
+    const addressType = this.getBaseAddressType(hextets);
+    const isUnicast = addressType === AddressType.GlobalUnicast ||
+                      addressType === AddressType.UniqueLocal ||
+                      addressType === AddressType.Documentation;
+
+    // RFC 2526 reserved subnet anycast addresses are carved out of unicast subnets
+    if (isUnicast && IPv6Anycast.getReservedSubnetAnycast(IPv6Value.fromHextets(hextets), linkPrefixLength)) {
+      return AddressType.Anycast;
     }
-    
-    if ((hextets[0] & 0xfe00) === 0xfc00) {
-      return AddressType.UniqueLocal;
+
+    return addressType;
+  }
+
+  private static getBaseAddressType(hextets: number[]): AddressType {
+    const registryType = SpecialPurposeRegistry.getAddressType(IPv6Value.fromHextets(hextets));
+    if (registryType) {
+      return registryType;
     }
     
     if ((hextets[0] & 0xff00) === 0xff00) {
       return AddressType.Multicast;
     }
     
-    if (hextets.slice(0, 5).every(h => h === 0) && hextets[5] === 0xffff) {
-      return AddressType.IPv4Mapped;
-    }
-    
+    // Deprecated ::/96 block, not part of the special-purpose registry
     if (hextets.slice(0, 6).every(h => h === 0)) {
       return AddressType.IPv4Compatible;
     }
     
-    if (hextets[0] === 0x2001 && hextets[1] === 0x0000) {
-      return AddressType.Teredo;
-    }
-    
-    if (hextets[0] === 0x2002) {
-      return AddressType.SixToFour;
-    }
-    
-    if (hextets[0] === 0x2001 && (hextets[1] & 0xfff8) === 0x0db8) {
-      return AddressType.Documentation;
-    }
-    
     if ((hextets[0] & 0xe000) === 0x2000) {
       return AddressType.GlobalUnicast;
     }
@@ -393,29 +960,55 @@ export class IPv6Parser {
         return AddressScope.LinkLocal;
       case AddressType.UniqueLocal:
         return AddressScope.OrganizationLocal;
+      case AddressType.Anycast:
+        return (hextets[0] & 0xfe00) === 0xfc00 ? AddressScope.OrganizationLocal : AddressScope.Global;
       case AddressType.GlobalUnicast:
       case AddressType.IPv4Mapped:
         return AddressScope.Global;
-      case AddressType.Multicast:
+      case AddressType.Multicast: {
         const scopeField = hextets[0] & 0x000f;
         switch (scopeField) {
           case 1: return AddressScope.InterfaceLocal;
           case 2: return AddressScope.LinkLocal;
+          case 3: return AddressScope.RealmLocal;
           case 4: return AddressScope.AdminLocal;
           case 5: return AddressScope.SiteLocal;
           case 8: return AddressScope.OrganizationLocal;
           case 14: return AddressScope.Global;
           default: return AddressScope.Global;
         }
+      }
       default:
         return AddressScope.Global;
     }
   }
 
+  private static isScopedAddress(hextets: number[]): boolean {
+    // Link-local unicast fe80::/10
+    if ((hextets[0] & 0xffc0) === 0xfe80) {
+      return true;
+    }
+
+    // Interface-local (ffx1::) and link-local (ffx2::) multicast
+    if ((hextets[0] & 0xff00) === 0xff00) {
+      const scopeField = hextets[0] & 0x000f;
+      return scopeField === 1 || scopeField === 2;
+    }
+
+    return false;
+  }
+
   private static isIPv4Mapped(hextets: number[]): boolean {
     return hextets.slice(0, 5).every(h => h === 0) && hextets[5] === 0xffff;
   }
 
+  private static hasEmbeddedIPv4(hextets: number[]): boolean {
+    const isNAT64WellKnown = hextets[0] === 0x0064 && hextets[1] === 0xff9b &&
+                             hextets.slice(2, 6).every(h => h === 0);
+    return this.isIPv4Mapped(hextets) || this.isIPv4Compatible(hextets) || isNAT64WellKnown ||
+           IPv6Transition.isISATAP(IPv6Value.fromHextets(hextets));
+  }
+
   private static isIPv4Compatible(hextets: number[]): boolean {
     return hextets.slice(0, 6).every(h => h === 0) && 
            (hextets[6] !== 0 || hextets[7] !== 0) && 
@@ -423,40 +1016,100 @@ export class IPv6Parser {
   }
 
   private static isEUI64(hextets: number[]): boolean {
-    // Check if the universal/local bit is set (bit 57 of the address)
-    const interfaceId = (BigInt(hextets[4]) << 48n) | 
-                       (BigInt(hextets[5]) << 32n) | 
-                       (BigInt(hextets[6]) << 16n) | 
-                       BigInt(hextets[7]);
-    
-    // Check for the EUI-64 format pattern (0xfffe in the middle)
-    const middle16 = (interfaceId >> 24n) & 0xffffn;
-    return middle16 === 0xfffen;
+    return EUI64.isMacDerived(IPv6Value.fromHextets(hextets));
+  }
+
+  private static getMacAddress(value: IPv6Value): MacAddressInfo | undefined {
+    const mac = EUI64.toMac(value);
+    return mac ? EUI64.describeMac(mac) : undefined;
   }
 
-  private static getRFCCompliance(hextets: number[], addressType: AddressType): RFCCompliance[] {
+  private static getRFCCompliance(
+    inputText: string | null,
+    parsed: ParsedIPv6,
+    addressType: AddressType,
+    documentationRfc?: string
+  ): RFCCompliance[] {
+    const { hextets, prefixLength } = parsed;
     const compliance: RFCCompliance[] = [];
     
-    compliance.push({
+    compliance.push(addressType === AddressType.IPv4Compatible ? {
+      rfc: 'RFC 4291',
+      title: 'IP Version 6 Addressing Architecture',
+      status: ComplianceStatus.Warn,
+      explanation: 'IPv4-compatible addresses (::a.b.c.d) are deprecated by section 2.5.5.1; use IPv4-mapped addresses instead'
+    } : {
       rfc: 'RFC 4291',
       title: 'IP Version 6 Addressing Architecture',
-      compliant: true,
-      notes: 'Valid IPv6 address format'
+      status: ComplianceStatus.Pass,
+      explanation: 'Valid 128-bit address'
     });
     
-    compliance.push({
-      rfc: 'RFC 5952',
-      title: 'A Recommendation for IPv6 Address Text Representation',
-      compliant: true,
-      notes: 'Follows canonical text representation rules'
-    });
+    // Only text input has a representation to judge
+    if (inputText !== null) {
+      compliance.push(this.checkCanonicalText(inputText, hextets));
+    }
+    
+    if (parsed.hasPrefix && prefixLength < 126 && addressType !== AddressType.Multicast) {
+      compliance.push({
+        rfc: 'RFC 7421',
+        title: 'Analysis of the 64-bit Boundary in IPv6 Addressing',
+        status: prefixLength > 64 ? ComplianceStatus.Warn : ComplianceStatus.Pass,
+        explanation: prefixLength > 64
+          ? `A /${prefixLength} subnet is longer than /64, which breaks SLAAC, privacy addresses and other features that assume a 64-bit interface identifier`
+          : prefixLength === 64
+            ? 'A /64 subnet keeps SLAAC and 64-bit interface identifiers working'
+            : `A /${prefixLength} is an aggregate; LAN subnets carved from it should be /64`
+      });
+    }
     
-    if (addressType === AddressType.UniqueLocal) {
+    if (parsed.hasPrefix && (prefixLength === 126 || prefixLength === 127)) {
+      compliance.push({
+        rfc: 'RFC 6164',
+        title: 'Using 127-Bit IPv6 Prefixes on Inter-Router Links',
+        status: prefixLength === 127 ? ComplianceStatus.Pass : ComplianceStatus.Warn,
+        explanation: prefixLength === 127
+          ? 'A /127 is the recommended point-to-point link prefix; the subnet-router anycast address must be disabled on it'
+          : 'Point-to-point links should use /127 to avoid the ping-pong problem and neighbor cache exhaustion'
+      });
+    }
+    
+    if (addressType === AddressType.Anycast) {
+      compliance.push({
+        rfc: 'RFC 2526',
+        title: 'Reserved IPv6 Subnet Anycast Addresses',
+        status: ComplianceStatus.Warn,
+        explanation: 'This is a reserved subnet anycast address and must not be assigned to a host interface'
+      });
+    }
+    
+    // fc00::/7, including reserved subnet anycast addresses inside a ULA subnet
+    if ((hextets[0] & 0xfe00) === 0xfc00) {
+      const isLocallyAssigned = (hextets[0] & 0x0100) !== 0;
+      const isLowEntropy = prefixLength >= 48 &&
+        ULAGenerator.isLowEntropyGlobalId(ULAGenerator.getGlobalId(IPv6Value.fromHextets(hextets)));
       compliance.push({
         rfc: 'RFC 4193',
         title: 'Unique Local IPv6 Unicast Addresses',
-        compliant: true,
-        notes: 'Valid ULA format (fc00::/7)'
+        ...(!isLocallyAssigned ? {
+          status: ComplianceStatus.Fail,
+          explanation: 'The L bit is 0: fc00::/8 is not defined for local assignment, use fd00::/8'
+        } : isLowEntropy ? {
+          status: ComplianceStatus.Warn,
+          explanation: 'The L bit is set, but the Global ID does not look pseudo-randomly generated'
+        } : {
+          status: ComplianceStatus.Pass,
+          explanation: 'The L bit is set (locally assigned, fd00::/8)'
+        })
+      });
+    }
+    
+    if (documentationRfc) {
+      compliance.push({
+        rfc: documentationRfc,
+        title: 'IPv6 Address Prefix Reserved for Documentation',
+        status: ComplianceStatus.Warn,
+        explanation: 'This prefix is reserved for examples and documentation and must not be used or routed on real networks'
       });
     }
     
@@ -464,11 +1117,59 @@ export class IPv6Parser {
       compliance.push({
         rfc: 'RFC 4007',
         title: 'IPv6 Scoped Address Architecture',
-        compliant: true,
-        notes: 'Valid link-local address (fe80::/10)'
+        status: parsed.zoneId ? ComplianceStatus.Pass : ComplianceStatus.Warn,
+        explanation: parsed.zoneId
+          ? `Zone ID %${parsed.zoneId} identifies the link`
+          : 'Link-local addresses are ambiguous without a zone ID on hosts with several interfaces'
       });
     }
     
     return compliance;
   }
-}
\ No newline at end of file
+
+  private static checkCanonicalText(inputText: string, hextets: number[]): RFCCompliance {
+    const zoneIndex = inputText.indexOf('%');
+    const slashIndex = inputText.lastIndexOf('/');
+    const addressText = inputText.slice(0, zoneIndex !== -1 ? zoneIndex : slashIndex !== -1 ? slashIndex : undefined);
+    const canonical = this.toCompressed(hextets);
+    const accepted = [canonical];
+    if (this.hasEmbeddedIPv4(hextets)) {
+      accepted.push(this.toCompressed(hextets, { mixedIPv4: true }));
+    }
+    
+    const result = {
+      rfc: 'RFC 5952',
+      title: 'A Recommendation for IPv6 Address Text Representation'
+    };
+    
+    if (accepted.includes(addressText)) {
+      return { ...result, status: ComplianceStatus.Pass, explanation: 'Input is already in canonical form' };
+    }
+    
+    const reasons: string[] = [];
+    const hexText = addressText.replace(/[^:]*\.[^:]*$/, '');
+    if (/[A-F]/.test(hexText)) {
+      reasons.push('hex digits must be lowercase');
+    }
+    if (/(^|:)0[0-9a-f]/i.test(hexText)) {
+      reasons.push('leading zeros must be omitted');
+    }
+    if (hexText !== addressText && !this.hasEmbeddedIPv4(hextets)) {
+      reasons.push('dotted-quad notation is only for IPv4-mapped and other IPv4-embedding formats');
+    }
+    if (reasons.length === 0 ||
+        (hexText === addressText && this.stripLeadingZeros(addressText.toLowerCase()) !== canonical)) {
+      reasons.push("'::' must cover the whole longest run of two or more zero groups, the first one on a tie");
+    }
+    
+    return {
+      ...result,
+      status: ComplianceStatus.Warn,
+      explanation: `Canonical form is ${canonical}: ${reasons.join('; ')}`
+    };
+  }
+
+  private static stripLeadingZeros(text: string): string {
+    return text.replace(/(^|:)0+(?=[0-9a-f])/g, '$1');
+  }
+}
@@ -0,0 +1,175 @@
+const BITS = 128n;
+const MAX_BIGINT = (1n << BITS) - 1n;
+
+/** Inclusive span of addresses from start to end. */
+export interface IPv6Range {
+  start: IPv6Value;
+  end: IPv6Value;
+}
+
+/**
+ * part / total as a percentage with two decimals. Scaled to basis points in bigint
+ * first so the ratio survives address counts far beyond Number precision.
+ */
+export function percentOf(part: bigint, total: bigint): number {
+  return Number((part * 10000n) / total) / 100;
+}
+
+/**
+ * Immutable 128-bit IPv6 address value. Every operation returns a new instance and
+ * throws a RangeError instead of silently wrapping around the address space.
+ */
+export class IPv6Value {
+  static readonly ZERO = new IPv6Value(0n);
+  static readonly MAX = new IPv6Value(MAX_BIGINT);
+
+  private readonly value: bigint;
+
+  private constructor(value: bigint) {
+    this.value = value;
+  }
+
+  static fromBigInt(value: bigint): IPv6Value {
+    if (value < 0n || value > MAX_BIGINT) {
+      throw new RangeError('Value is outside the 128-bit IPv6 address space');
+    }
+    return new IPv6Value(value);
+  }
+
+  static fromHextets(hextets: number[]): IPv6Value {
+    if (hextets.length !== 8 || hextets.some(h => !Number.isInteger(h) || h < 0 || h > 0xffff)) {
+      throw new RangeError('Expected eight 16-bit hextets');
+    }
+    return new IPv6Value(hextets.reduce((result, hextet) => (result << 16n) | BigInt(hextet), 0n));
+  }
+
+  /** Mask with the first prefixLength bits set, e.g. ffff:ffff:: for /32. */
+  static prefixMask(prefixLength: number): IPv6Value {
+    IPv6Value.assertPrefixLength(prefixLength);
+    return new IPv6Value(MAX_BIGINT ^ IPv6Value.hostMaskBigInt(prefixLength));
+  }
+
+  /** Mask with the last 128 - prefixLength bits set, e.g. ::ffff:ffff:ffff:ffff for /64. */
+  static hostMask(prefixLength: number): IPv6Value {
+    IPv6Value.assertPrefixLength(prefixLength);
+    return new IPv6Value(IPv6Value.hostMaskBigInt(prefixLength));
+  }
+
+  /** Number of addresses in a prefix of the given length (2^(128 - prefixLength)). */
+  static blockSize(prefixLength: number): bigint {
+    IPv6Value.assertPrefixLength(prefixLength);
+    return 1n << BigInt(128 - prefixLength);
+  }
+
+  static min(first: IPv6Value, ...rest: IPv6Value[]): IPv6Value {
+    return rest.reduce((lowest, current) => (current.value < lowest.value ? current : lowest), first);
+  }
+
+  static max(first: IPv6Value, ...rest: IPv6Value[]): IPv6Value {
+    return rest.reduce((highest, current) => (current.value > highest.value ? current : highest), first);
+  }
+
+  toBigInt(): bigint {
+    return this.value;
+  }
+
+  toHextets(): number[] {
+    const hextets: number[] = [];
+    for (let i = 7; i >= 0; i--) {
+      hextets.push(Number((this.value >> BigInt(i * 16)) & 0xffffn));
+    }
+    return hextets;
+  }
+
+  toExpanded(): string {
+    return this.toHextets().map(h => h.toString(16).padStart(4, '0')).join(':');
+  }
+
+  add(offset: bigint | number): IPv6Value {
+    return IPv6Value.fromBigInt(this.value + BigInt(offset));
+  }
+
+  subtract(offset: bigint | number): IPv6Value {
+    return IPv6Value.fromBigInt(this.value - BigInt(offset));
+  }
+
+  next(): IPv6Value {
+    return this.add(1n);
+  }
+
+  previous(): IPv6Value {
+    return this.subtract(1n);
+  }
+
+  /** Distance to another value (other - this), negative when other is lower. */
+  distanceTo(other: IPv6Value): bigint {
+    return other.value - this.value;
+  }
+
+  compare(other: IPv6Value): -1 | 0 | 1 {
+    if (this.value < other.value) return -1;
+    if (this.value > other.value) return 1;
+    return 0;
+  }
+
+  equals(other: IPv6Value): boolean {
+    return this.value === other.value;
+  }
+
+  and(other: IPv6Value): IPv6Value {
+    return new IPv6Value(this.value & other.value);
+  }
+
+  or(other: IPv6Value): IPv6Value {
+    return new IPv6Value(this.value | other.value);
+  }
+
+  xor(other: IPv6Value): IPv6Value {
+    return new IPv6Value(this.value ^ other.value);
+  }
+
+  not(): IPv6Value {
+    return new IPv6Value(MAX_BIGINT ^ this.value);
+  }
+
+  /** Network address: clears every bit beyond the prefix. */
+  mask(prefixLength: number): IPv6Value {
+    IPv6Value.assertPrefixLength(prefixLength);
+    return new IPv6Value(this.value & (MAX_BIGINT ^ IPv6Value.hostMaskBigInt(prefixLength)));
+  }
+
+  /** Last address of the prefix: sets every bit beyond the prefix. */
+  fillHostBits(prefixLength: number): IPv6Value {
+    IPv6Value.assertPrefixLength(prefixLength);
+    return new IPv6Value(this.value | IPv6Value.hostMaskBigInt(prefixLength));
+  }
+
+  /** True when no bit beyond the prefix is set. */
+  isNetworkAddress(prefixLength: number): boolean {
+    return this.mask(prefixLength).equals(this);
+  }
+
+  /** Number of trailing zero bits (128 for ::), i.e. the largest block this value is aligned to. */
+  trailingZeroBits(): number {
+    if (this.value === 0n) return 128;
+    let bits = 0;
+    while (((this.value >> BigInt(bits)) & 1n) === 0n) bits++;
+    return bits;
+  }
+
+  /** Number of leading bits shared with another value (128 when equal). */
+  commonPrefixLength(other: IPv6Value): number {
+    const difference = this.value ^ other.value;
+    return difference === 0n ? 128 : 128 - difference.toString(2).length;
+  }
+
+  private static hostMaskBigInt(prefixLength: number): bigint {
+    return (1n << BigInt(128 - prefixLength)) - 1n;
+  }
+
+  private static assertPrefixLength(prefixLength: number): void {
+    if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > 128) {
+      throw new RangeError('Prefix length must be between 0 and 128');
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { MulticastInfo, SolicitedNodeInfo } from '../types/ipv6';
+import { IPv6Parser } from './ipv6Parser';
+import { IPv6Value } from './ipv6Value';
+
+const FLAG_EMBEDDED_RP = 0x4;
+const FLAG_PREFIX_BASED = 0x2;
+const FLAG_TRANSIENT = 0x1;
+
+const SOLICITED_NODE_PREFIX = IPv6Value.fromHextets([0xff02, 0, 0, 0, 0, 1, 0xff00, 0]);
+const SOLICITED_NODE_BITS = 24;
+
+const SCOPE_NAMES: Record<number, string> = {
+  0x0: 'Reserved',
+  0x1: 'Interface-Local',
+  0x2: 'Link-Local',
+  0x3: 'Realm-Local',
+  0x4: 'Admin-Local',
+  0x5: 'Site-Local',
+  0x8: 'Organization-Local',
+  0xe: 'Global',
+  0xf: 'Reserved'
+};
+
+// Permanent group IDs from the IANA IPv6 Multicast Address Space registry; groups
+// without scopes are variable-scope (ff0x::) allocations
+const WELL_KNOWN_GROUPS: { groupId: bigint; scopes?: number[]; name: string }[] = [
+  { groupId: 0x1n, scopes: [0x1, 0x2], name: 'All Nodes' },
+  { groupId: 0x2n, scopes: [0x1, 0x2, 0x5], name: 'All Routers' },
+  { groupId: 0x4n, scopes: [0x2], name: 'DVMRP Routers' },
+  { groupId: 0x5n, scopes: [0x2], name: 'OSPFv3 All SPF Routers' },
+  { groupId: 0x6n, scopes: [0x2], name: 'OSPFv3 Designated Routers' },
+  { groupId: 0x9n, scopes: [0x2], name: 'RIPng Routers' },
+  { groupId: 0xan, scopes: [0x2], name: 'EIGRP Routers' },
+  { groupId: 0xbn, scopes: [0x2], name: 'Mobile Agents' },
+  { groupId: 0xdn, scopes: [0x2], name: 'All PIM Routers' },
+  { groupId: 0xen, scopes: [0x2], name: 'RSVP Encapsulation' },
+  { groupId: 0xfn, scopes: [0x2], name: 'UPnP' },
+  { groupId: 0x12n, scopes: [0x2], name: 'VRRP' },
+  { groupId: 0x16n, scopes: [0x2], name: 'All MLDv2-capable Routers' },
+  { groupId: 0x1an, scopes: [0x2], name: 'All RPL Nodes' },
+  { groupId: 0x6an, scopes: [0x2], name: 'All Snoopers' },
+  { groupId: 0x6bn, scopes: [0x2], name: 'PTP Peer Delay' },
+  { groupId: 0x10001n, scopes: [0x2], name: 'Link Name' },
+  { groupId: 0x10002n, scopes: [0x2], name: 'All DHCP Relay Agents and Servers' },
+  { groupId: 0x10003n, scopes: [0x2], name: 'LLMNR' },
+  { groupId: 0x10003n, scopes: [0x5], name: 'All DHCP Servers' },
+  { groupId: 0xcn, name: 'SSDP' },
+  { groupId: 0xfbn, name: 'mDNSv6' },
+  { groupId: 0x101n, name: 'Network Time Protocol' },
+  { groupId: 0x181n, name: 'PTP Primary' }
+];
+
+/** Multicast address analysis per RFC 4291 section 2.7, RFC 3306 and RFC 3956. */
+export class IPv6Multicast {
+  static isMulticast(value: IPv6Value): boolean {
+    return value.toHextets()[0] >> 8 === 0xff;
+  }
+
+  static analyze(value: IPv6Value): MulticastInfo | null {
+    if (!this.isMulticast(value)) {
+      return null;
+    }
+
+    const bits = value.toBigInt();
+    const flags = Number((bits >> 116n) & 0xfn);
+    const scope = Number((bits >> 112n) & 0xfn);
+    const isPrefixBased = (flags & FLAG_PREFIX_BASED) !== 0;
+    const hasEmbeddedRP = (flags & FLAG_EMBEDDED_RP) !== 0;
+    const groupBits = isPrefixBased ? 32n : 112n;
+    const groupId = bits & ((1n << groupBits) - 1n);
+
+    const info: MulticastInfo = {
+      flags,
+      hasEmbeddedRP,
+      isPrefixBased,
+      isTransient: (flags & FLAG_TRANSIENT) !== 0,
+      scope,
+      scopeName: SCOPE_NAMES[scope] ?? 'Unassigned',
+      groupId: `0x${groupId.toString(16)}`,
+      wellKnownGroup: flags === 0 ? this.findWellKnownGroup(groupId, scope) : undefined,
+      isSourceSpecific: false,
+      macAddress: this.toMacAddress(value)
+    };
+
+    if (isPrefixBased) {
+      // ffXS:rrrr:plen:network-prefix(64):group-id(32); the low nibble of rrrr is the RIID when R is set
+      const prefixLength = Number((bits >> 96n) & 0xffn);
+      const networkBits = (bits >> 32n) & 0xffffffffffffffffn;
+      const riid = (bits >> 104n) & 0xfn;
+
+      if (prefixLength === 0 && networkBits === 0n && !hasEmbeddedRP) {
+        info.isSourceSpecific = true;
+      } else if (prefixLength <= 64) {
+        const network = IPv6Value.fromBigInt(networkBits << 64n).mask(prefixLength);
+        info.unicastPrefix = `${IPv6Parser.format(network)}/${prefixLength}`;
+        if (hasEmbeddedRP && prefixLength > 0) {
+          info.rendezvousPoint = IPv6Parser.format(network.or(IPv6Value.fromBigInt(riid)));
+        }
+      }
+    }
+
+    return info;
+  }
+
+  /** Ethernet multicast MAC 33:33 followed by the low 32 bits of the group (RFC 2464 section 7). */
+  static toMacAddress(value: IPv6Value): string {
+    const low = value.toBigInt() & 0xffffffffn;
+    const octets = [24n, 16n, 8n, 0n].map(shift => ((low >> shift) & 0xffn).toString(16).padStart(2, '0'));
+    return ['33', '33', ...octets].join(':');
+  }
+
+  /** Solicited-node group ff02::1:ffXX:XXXX carrying the low 24 bits of a unicast address. */
+  static solicitedNodeGroup(value: IPv6Value): IPv6Value {
+    return SOLICITED_NODE_PREFIX.or(value.and(IPv6Value.hostMask(128 - SOLICITED_NODE_BITS)));
+  }
+
+  /**
+   * Solicited-node group of a unicast address together with every address of the
+   * prefix that maps to the same group; only the first `limit` of those are listed.
+   */
+  static getSolicitedNode(value: IPv6Value, prefixLength: number, limit = 8): SolicitedNodeInfo | null {
+    if (this.isMulticast(value) || value.equals(IPv6Value.ZERO)) {
+      return null;
+    }
+
+    const group = this.solicitedNodeGroup(value);
+    const network = value.mask(prefixLength);
+    const lowBits = value.and(IPv6Value.hostMask(128 - SOLICITED_NODE_BITS)).toBigInt();
+    const varyingBits = Math.max(0, 128 - SOLICITED_NODE_BITS - prefixLength);
+    const collisionCount = 1n << BigInt(varyingBits);
+
+    const collisions: string[] = [];
+    for (let index = 0n; index < collisionCount && collisions.length < limit; index++) {
+      const candidate = network.or(IPv6Value.fromBigInt((index << BigInt(SOLICITED_NODE_BITS)) | lowBits));
+      collisions.push(IPv6Parser.format(candidate));
+    }
+
+    return {
+      group: IPv6Parser.format(group),
+      macAddress: this.toMacAddress(group),
+      prefix: `${IPv6Parser.format(network)}/${prefixLength}`,
+      collisionCount: collisionCount.toString(),
+      collisions
+    };
+  }
+
+  private static findWellKnownGroup(groupId: bigint, scope: number): string | undefined {
+    return WELL_KNOWN_GROUPS.find(group =>
+      group.groupId === groupId && (!group.scopes || group.scopes.includes(scope))
+    )?.name;
+  }
+}
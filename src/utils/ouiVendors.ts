@@ -0,0 +1,75 @@
+/**
+ * Small offline subset of the IEEE OUI registry, keyed by the lower-case colon-separated
+ * OUI. Covers common network, server and virtualisation vendors only.
+ */
+export const OUI_VENDORS: Record<string, string> = {
+  '00:00:0c': 'Cisco Systems',
+  '00:1b:0d': 'Cisco Systems',
+  '00:25:45': 'Cisco Systems',
+  '00:26:0b': 'Cisco Systems',
+  '00:18:0a': 'Cisco Meraki',
+  '00:0f:66': 'Cisco-Linksys',
+  '00:1d:7e': 'Cisco-Linksys',
+  '00:05:85': 'Juniper Networks',
+  '28:8a:1c': 'Juniper Networks',
+  '00:1c:73': 'Arista Networks',
+  '00:0b:86': 'Aruba Networks',
+  '00:04:96': 'Extreme Networks',
+  '00:09:0f': 'Fortinet',
+  '00:1b:17': 'Palo Alto Networks',
+  '00:e0:fc': 'Huawei Technologies',
+  '00:18:82': 'Huawei Technologies',
+  '00:0c:42': 'Routerboard.com (MikroTik)',
+  '4c:5e:0c': 'Routerboard.com (MikroTik)',
+  '00:27:22': 'Ubiquiti Networks',
+  '24:a4:3c': 'Ubiquiti Networks',
+  '00:0f:b5': 'Netgear',
+  '00:14:6c': 'Netgear',
+  '00:0d:88': 'D-Link',
+  '00:1e:58': 'D-Link',
+  '00:02:b3': 'Intel Corporation',
+  '00:07:e9': 'Intel Corporation',
+  '00:0e:0c': 'Intel Corporation',
+  '00:13:e8': 'Intel Corporation',
+  '00:15:17': 'Intel Corporation',
+  '00:1b:21': 'Intel Corporation',
+  '00:21:6a': 'Intel Corporation',
+  '00:24:d7': 'Intel Corporation',
+  '3c:fd:fe': 'Intel Corporation',
+  'a0:36:9f': 'Intel Corporation',
+  '00:e0:4c': 'Realtek Semiconductor',
+  '00:0a:f7': 'Broadcom',
+  '00:10:18': 'Broadcom',
+  '00:04:4b': 'NVIDIA',
+  '00:14:22': 'Dell',
+  '00:1d:09': 'Dell',
+  '00:1e:c9': 'Dell',
+  '00:26:b9': 'Dell',
+  'f8:bc:12': 'Dell',
+  '00:1f:29': 'Hewlett-Packard',
+  '3c:d9:2b': 'Hewlett-Packard',
+  '00:25:90': 'Super Micro Computer',
+  '00:03:93': 'Apple',
+  '00:17:f2': 'Apple',
+  '00:1b:63': 'Apple',
+  '00:1c:b3': 'Apple',
+  'f0:18:98': 'Apple',
+  '00:1a:11': 'Google',
+  '3c:5a:b4': 'Google',
+  '00:0d:3a': 'Microsoft',
+  '00:1d:d8': 'Microsoft',
+  '00:50:f2': 'Microsoft',
+  '00:15:5d': 'Microsoft (Hyper-V)',
+  '00:05:69': 'VMware',
+  '00:0c:29': 'VMware',
+  '00:50:56': 'VMware',
+  '00:16:3e': 'Xensource',
+  '00:1c:42': 'Parallels',
+  '08:00:27': 'Oracle VirtualBox',
+  '52:54:00': 'QEMU/KVM (locally administered)',
+  'b8:27:eb': 'Raspberry Pi Foundation',
+  'dc:a6:32': 'Raspberry Pi Trading',
+  'e4:5f:01': 'Raspberry Pi Trading',
+  '00:17:88': 'Philips Lighting',
+  '00:00:5e': 'IANA'
+};
@@ -0,0 +1,101 @@
+import { IPv6Subnetting } from './subnetting';
+import { IPv6Range } from './ipv6Value';
+
+/**
+ * Set algebra over prefix lists. Inputs may overlap or repeat; every result is
+ * returned as the normalised (minimal, sorted) CIDR list of the resulting address set.
+ */
+export class IPv6PrefixSet {
+  static normalize(prefixes: string[]): string[] {
+    return IPv6Subnetting.summarizeRoutes(prefixes);
+  }
+
+  static union(a: string[], b: string[]): string[] {
+    return this.normalize([...a, ...b]);
+  }
+
+  static intersection(a: string[], b: string[]): string[] {
+    return this.toPrefixes(this.intersectRanges(this.rangesOf(a), this.rangesOf(b)));
+  }
+
+  static difference(a: string[], b: string[]): string[] {
+    return this.toPrefixes(this.subtractRanges(this.rangesOf(a), this.rangesOf(b)));
+  }
+
+  /** What is left of the parent prefix once the given prefixes are removed. */
+  static complement(parent: string, prefixes: string[]): string[] {
+    return this.difference([parent], prefixes);
+  }
+
+  /** True when every address of b is also in a. */
+  static contains(a: string[], b: string[]): boolean {
+    return this.subtractRanges(this.rangesOf(b), this.rangesOf(a)).length === 0;
+  }
+
+  /** True when a and b share at least one address. */
+  static overlaps(a: string[], b: string[]): boolean {
+    return this.intersectRanges(this.rangesOf(a), this.rangesOf(b)).length > 0;
+  }
+
+  private static rangesOf(prefixes: string[]): IPv6Range[] {
+    return IPv6Subnetting.mergeRanges(IPv6Subnetting.toRanges(prefixes));
+  }
+
+  private static toPrefixes(ranges: IPv6Range[]): string[] {
+    return ranges.flatMap(range => IPv6Subnetting.rangeToPrefixes(range));
+  }
+
+  // Both inputs are sorted and merged, so a single sweep finds every overlap
+  private static intersectRanges(a: IPv6Range[], b: IPv6Range[]): IPv6Range[] {
+    const result: IPv6Range[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      const start = a[i].start.compare(b[j].start) >= 0 ? a[i].start : b[j].start;
+      const end = a[i].end.compare(b[j].end) <= 0 ? a[i].end : b[j].end;
+
+      if (start.compare(end) <= 0) {
+        result.push({ start, end });
+      }
+
+      if (a[i].end.compare(b[j].end) < 0) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return result;
+  }
+
+  private static subtractRanges(a: IPv6Range[], b: IPv6Range[]): IPv6Range[] {
+    const result: IPv6Range[] = [];
+    let j = 0;
+
+    for (const range of a) {
+      let start = range.start;
+      let exhausted = false;
+
+      // Skip removals that end before this range starts
+      while (j < b.length && b[j].end.compare(start) < 0) j++;
+
+      for (let k = j; k < b.length && b[k].start.compare(range.end) <= 0; k++) {
+        if (b[k].start.compare(start) > 0) {
+          result.push({ start, end: b[k].start.previous() });
+        }
+        if (b[k].end.compare(range.end) >= 0) {
+          exhausted = true;
+          break;
+        }
+        start = b[k].end.next();
+      }
+
+      if (!exhausted) {
+        result.push({ start, end: range.end });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,122 @@
+import { AddressType, SpecialPurposeEntry } from '../types/ipv6';
+import { IPv6Value } from './ipv6Value';
+
+interface RegistryBlock {
+  network: IPv6Value;
+  addressType?: AddressType;
+  entry: SpecialPurposeEntry;
+}
+
+type RegistryFlags = [
+  source: boolean | null,
+  destination: boolean | null,
+  forwardable: boolean | null,
+  globallyReachable: boolean | null,
+  reservedByProtocol: boolean | null
+];
+
+const block = (
+  leadingHextets: number[],
+  prefix: string,
+  name: string,
+  rfc: string,
+  [source, destination, forwardable, globallyReachable, reservedByProtocol]: RegistryFlags,
+  addressType?: AddressType
+): RegistryBlock => ({
+  network: IPv6Value.fromHextets([...leadingHextets, ...new Array(8 - leadingHextets.length).fill(0)]),
+  addressType,
+  entry: {
+    prefix,
+    prefixLength: Number(prefix.split('/')[1]),
+    name,
+    rfc,
+    source,
+    destination,
+    forwardable,
+    globallyReachable,
+    reservedByProtocol
+  }
+});
+
+// Mirrors https://www.iana.org/assignments/iana-ipv6-special-registry
+const REGISTRY: RegistryBlock[] = [
+  block([0, 0, 0, 0, 0, 0, 0, 1], '::1/128', 'Loopback Address', 'RFC 4291',
+    [false, false, false, false, true], AddressType.Loopback),
+  block([], '::/128', 'Unspecified Address', 'RFC 4291',
+    [true, false, false, false, true], AddressType.Unspecified),
+  block([0, 0, 0, 0, 0, 0xffff], '::ffff:0:0/96', 'IPv4-mapped Address', 'RFC 4291',
+    [false, false, false, false, true], AddressType.IPv4Mapped),
+  block([0x64, 0xff9b], '64:ff9b::/96', 'IPv4-IPv6 Translation', 'RFC 6052',
+    [true, true, true, true, false], AddressType.Translation),
+  block([0x64, 0xff9b, 1], '64:ff9b:1::/48', 'IPv4-IPv6 Translation (Local-Use)', 'RFC 8215',
+    [true, true, true, false, false], AddressType.Translation),
+  block([0x100], '100::/64', 'Discard-Only Address Block', 'RFC 6666',
+    [true, true, true, false, false], AddressType.DiscardOnly),
+  block([0x100, 0, 0, 1], '100:0:0:1::/64', 'Dummy IPv6 Prefix', 'RFC 9780',
+    [false, false, false, false, false], AddressType.Reserved),
+  block([0x2001], '2001::/23', 'IETF Protocol Assignments', 'RFC 2928',
+    [false, false, false, false, false]),
+  block([0x2001], '2001::/32', 'TEREDO', 'RFC 4380, RFC 8190',
+    [true, true, true, null, false], AddressType.Teredo),
+  block([0x2001, 1, 0, 0, 0, 0, 0, 1], '2001:1::1/128', 'Port Control Protocol Anycast', 'RFC 7723',
+    [true, true, true, true, false], AddressType.Anycast),
+  block([0x2001, 1, 0, 0, 0, 0, 0, 2], '2001:1::2/128', 'Traversal Using Relays around NAT Anycast', 'RFC 8155',
+    [true, true, true, true, false], AddressType.Anycast),
+  block([0x2001, 1, 0, 0, 0, 0, 0, 3], '2001:1::3/128', 'DNS-SD Service Registration Protocol Anycast', 'RFC 9665',
+    [true, true, true, true, false], AddressType.Anycast),
+  block([0x2001, 2], '2001:2::/48', 'Benchmarking', 'RFC 5180',
+    [true, true, true, false, false], AddressType.Benchmarking),
+  block([0x2001, 3], '2001:3::/32', 'AMT', 'RFC 7450',
+    [true, true, true, true, false]),
+  block([0x2001, 4, 0x112], '2001:4:112::/48', 'AS112-v6', 'RFC 7535',
+    [true, true, true, true, false]),
+  block([0x2001, 0x10], '2001:10::/28', 'Deprecated (previously ORCHID)', 'RFC 4843',
+    [false, false, false, false, false], AddressType.Reserved),
+  block([0x2001, 0x20], '2001:20::/28', 'ORCHIDv2', 'RFC 7343',
+    [true, true, true, true, false], AddressType.Orchid),
+  block([0x2001, 0x30], '2001:30::/28', 'Drone Remote ID Protocol Entity Tags (DETs)', 'RFC 9374',
+    [true, true, true, true, false]),
+  block([0x2001, 0xdb8], '2001:db8::/32', 'Documentation', 'RFC 3849',
+    [false, false, false, false, false], AddressType.Documentation),
+  block([0x2002], '2002::/16', '6to4', 'RFC 3056',
+    [true, true, true, null, false], AddressType.SixToFour),
+  block([0x2620, 0x4f, 0x8000], '2620:4f:8000::/48', 'Direct Delegation AS112 Service', 'RFC 7534',
+    [true, true, true, true, false]),
+  block([0x3fff], '3fff::/20', 'Documentation', 'RFC 9637',
+    [false, false, false, false, false], AddressType.Documentation),
+  block([0x5f00], '5f00::/16', 'Segment Routing (SRv6) SIDs', 'RFC 9602',
+    [true, true, true, false, false], AddressType.SegmentRouting),
+  block([0xfc00], 'fc00::/7', 'Unique-Local', 'RFC 4193, RFC 8190',
+    [true, true, true, false, false], AddressType.UniqueLocal),
+  block([0xfe80], 'fe80::/10', 'Link-Local Unicast', 'RFC 4291',
+    [true, true, false, false, true], AddressType.LinkLocal)
+];
+
+export class SpecialPurposeRegistry {
+  static getEntries(): SpecialPurposeEntry[] {
+    return REGISTRY.map(({ entry }) => entry);
+  }
+
+  /** Most specific registry entry containing the address, or null when none does. */
+  static lookup(value: IPv6Value): SpecialPurposeEntry | null {
+    return this.findBlock(value)?.entry ?? null;
+  }
+
+  /** Address type implied by the most specific entry that assigns one. */
+  static getAddressType(value: IPv6Value): AddressType | null {
+    const typed = REGISTRY.filter(registryBlock => registryBlock.addressType !== undefined);
+    return this.findBlock(value, typed)?.addressType ?? null;
+  }
+
+  private static findBlock(value: IPv6Value, blocks: RegistryBlock[] = REGISTRY): RegistryBlock | null {
+    let best: RegistryBlock | null = null;
+    for (const registryBlock of blocks) {
+      const { prefixLength } = registryBlock.entry;
+      if (value.mask(prefixLength).equals(registryBlock.network) &&
+          (!best || prefixLength > best.entry.prefixLength)) {
+        best = registryBlock;
+      }
+    }
+    return best;
+  }
+}
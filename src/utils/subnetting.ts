@@ -1,162 +1,395 @@
-import { SubnetInfo, SubnetPlan } from '../types/ipv6';
+import {
+  AddressRangeInfo,
+  AllocationOptions,
+  AllocationStrategy,
+  NibbleInfo,
+  PrefixListRange,
+  SubnetInfo,
+  SubnetPage,
+  SubnetPlan,
+  SubnetCountRecommendation,
+  SupernetInfo
+} from '../types/ipv6';
 import { IPv6Parser } from './ipv6Parser';
+import { IPv6Range, IPv6Value, percentOf } from './ipv6Value';
 
+interface ResolvedBase {
+  base: IPv6Value;
+  prefixLength: number;
+  totalSubnets: bigint;
+  strategy: AllocationStrategy;
+  growthBits: number;
+}
+
+/**
+ * Subnets are numbered in allocation order: index n is the n-th subnet handed out
+ * under the chosen RFC 3531 strategy, spaced so that each can later grow by the
+ * reserved number of bits. The default (rightmost, no reserve) is address order.
+ */
 export class IPv6Subnetting {
-  static calculateSubnets(prefix: string, targetPrefixLength: number, count?: number): SubnetPlan {
-    const parsed = IPv6Parser.parse(prefix);
+  static calculateSubnets(prefix: string, targetPrefixLength: number, count: number, options: AllocationOptions = {}): SubnetPlan {
+    const resolved = this.resolveBase(prefix, targetPrefixLength, options);
+    const subnets: SubnetInfo[] = [];
     
-    if (!parsed.isValid) {
-      throw new Error('Invalid IPv6 prefix');
+    for (const subnet of this.iterateSubnets(prefix, targetPrefixLength, 0n, options)) {
+      if (subnets.length >= count) break;
+      subnets.push(subnet);
     }
     
-    if (targetPrefixLength <= parsed.prefixLength) {
-      throw new Error('Target prefix length must be longer than current prefix');
-    }
+    return {
+      originalPrefix: prefix,
+      targetPrefixLength,
+      subnets: this.withMaxGrowth(subnets, resolved, targetPrefixLength, BigInt(subnets.length)),
+      totalSubnets: resolved.totalSubnets,
+      strategy: resolved.strategy,
+      growthBits: resolved.growthBits
+    };
+  }
+
+  static countSubnets(prefix: string, targetPrefixLength: number, options: AllocationOptions = {}): bigint {
+    return this.resolveBase(prefix, targetPrefixLength, options).totalSubnets;
+  }
+
+  static getSubnet(prefix: string, targetPrefixLength: number, index: bigint, options: AllocationOptions = {}): SubnetInfo {
+    const resolved = this.resolveBase(prefix, targetPrefixLength, options);
     
-    if (targetPrefixLength > 128) {
-      throw new Error('Target prefix length cannot exceed 128');
+    if (index < 0n || index >= resolved.totalSubnets) {
+      throw new RangeError(`Subnet index must be between 0 and ${resolved.totalSubnets - 1n}`);
     }
     
-    const subnetBits = targetPrefixLength - parsed.prefixLength;
-    const totalPossibleSubnets = Math.pow(2, subnetBits);
-    const subnetsToGenerate = count ? Math.min(count, totalPossibleSubnets) : totalPossibleSubnets;
+    return this.buildSubnet(resolved, targetPrefixLength, index);
+  }
+
+  /** One page of subnets; growth limits assume every subnet up to the end of the page is allocated. */
+  static getSubnetPage(
+    prefix: string,
+    targetPrefixLength: number,
+    page: bigint,
+    pageSize: number,
+    options: AllocationOptions = {}
+  ): SubnetPage {
+    const resolved = this.resolveBase(prefix, targetPrefixLength, options);
+    const { totalSubnets } = resolved;
+    const size = BigInt(pageSize);
+    const totalPages = (totalSubnets + size - 1n) / size;
     
+    if (page < 0n || page >= totalPages) {
+      throw new RangeError(`Page must be between 0 and ${totalPages - 1n}`);
+    }
+    
+    const firstIndex = page * size;
     const subnets: SubnetInfo[] = [];
-    const baseHextets = this.parseHextets(parsed.expanded);
     
-    for (let i = 0; i < subnetsToGenerate; i++) {
-      const subnetHextets = this.calculateSubnetAddress(baseHextets, parsed.prefixLength, targetPrefixLength, i);
-      const network = this.hextetsToAddress(subnetHextets);
-      const { first, last } = this.getSubnetRange(subnetHextets, targetPrefixLength);
-      
-      subnets.push({
-        network: `${network}/${targetPrefixLength}`,
-        firstAddress: first,
-        lastAddress: last,
-        broadcastAddress: last, // IPv6 doesn't have broadcast, using last address
-        totalHosts: this.calculateHostCount(targetPrefixLength)
-      });
+    for (const subnet of this.iterateSubnets(prefix, targetPrefixLength, firstIndex, options)) {
+      if (subnets.length >= pageSize) break;
+      subnets.push(subnet);
     }
     
     return {
       originalPrefix: prefix,
       targetPrefixLength,
-      subnets,
-      totalSubnets: totalPossibleSubnets
+      subnets: this.withMaxGrowth(subnets, resolved, targetPrefixLength, firstIndex + BigInt(subnets.length)),
+      totalSubnets,
+      strategy: resolved.strategy,
+      growthBits: resolved.growthBits,
+      page,
+      pageSize,
+      totalPages,
+      firstIndex
+    };
+  }
+
+  /** True when the prefix ends on a hex digit, so it reads cleanly and delegates in ip6.arpa. */
+  static isNibbleAligned(prefixLength: number): boolean {
+    return prefixLength % 4 === 0;
+  }
+
+  static getNibbleInfo(parentPrefixLength: number, targetPrefixLength: number): NibbleInfo {
+    const fixedDigits = Math.floor(targetPrefixLength / 4);
+    const partialDigits = this.isNibbleAligned(targetPrefixLength) ? 0 : 1;
+    
+    return {
+      isNibbleAligned: this.isNibbleAligned(targetPrefixLength),
+      fixedDigits,
+      partialDigits,
+      variableDigits: 32 - fixedDigits - partialDigits,
+      subnetDigitStart: Math.floor(parentPrefixLength / 4),
+      subnetDigitEnd: Math.ceil(targetPrefixLength / 4)
+    };
+  }
+
+  /** Shortest target prefix that yields at least count subnets, plus the same rounded to a nibble boundary. */
+  static recommendPrefixLength(parentPrefixLength: number, count: bigint): SubnetCountRecommendation {
+    if (count < 1n) {
+      throw new RangeError('Enter at least one subnet');
+    }
+    
+    let bits = 0;
+    while ((1n << BigInt(bits)) < count) bits++;
+    
+    const prefixLength = parentPrefixLength + bits;
+    if (prefixLength > 128) {
+      throw new RangeError(`A /${parentPrefixLength} holds at most ${(1n << BigInt(128 - parentPrefixLength)).toLocaleString()} subnets`);
+    }
+    
+    const nibblePrefixLength = Math.ceil(prefixLength / 4) * 4;
+    
+    return {
+      count,
+      prefixLength,
+      nibblePrefixLength,
+      nibbleSubnetCount: 1n << BigInt(nibblePrefixLength - parentPrefixLength)
     };
   }
+
+  /** Lazily yields subnets in allocation order, starting at startIndex. */
+  static *iterateSubnets(
+    prefix: string,
+    targetPrefixLength: number,
+    startIndex = 0n,
+    options: AllocationOptions = {}
+  ): Generator<SubnetInfo> {
+    const resolved = this.resolveBase(prefix, targetPrefixLength, options);
+    
+    for (let index = startIndex; index < resolved.totalSubnets; index++) {
+      yield this.buildSubnet(resolved, targetPrefixLength, index);
+    }
+  }
   
+  /**
+   * Aggregates prefixes into the minimal CIDR list that covers exactly their union:
+   * overlapping and duplicate inputs collapse and no address outside the input is added.
+   */
   static summarizeRoutes(prefixes: string[]): string[] {
-    // Simple route summarization
-    const networks = prefixes
+    return this.mergeRanges(this.toRanges(prefixes))
+      .flatMap(range => this.rangeToPrefixes(range));
+  }
+
+  /** Smallest single prefix containing every input, with how much space it adds beyond them. */
+  static findCoveringSupernet(prefixes: string[]): SupernetInfo | null {
+    const ranges = this.mergeRanges(this.toRanges(prefixes));
+    
+    if (ranges.length === 0) return null;
+    
+    const start = ranges[0].start;
+    const end = ranges[ranges.length - 1].end;
+    const prefixLength = start.commonPrefixLength(end);
+    const totalAddresses = IPv6Value.blockSize(prefixLength);
+    const coveredAddresses = ranges.reduce((sum, range) => sum + range.start.distanceTo(range.end) + 1n, 0n);
+    const extraAddresses = totalAddresses - coveredAddresses;
+    
+    return {
+      supernet: `${IPv6Parser.format(start.mask(prefixLength))}/${prefixLength}`,
+      prefixLength,
+      totalAddresses,
+      coveredAddresses,
+      extraAddresses,
+      extraPercentage: percentOf(extraAddresses, totalAddresses)
+    };
+  }
+  
+  /** Minimal CIDR list covering exactly a range parsed by IPv6Parser.parseRange. */
+  static decomposeRange(range: AddressRangeInfo): string[] {
+    if (!range.isValid) {
+      throw new Error('Invalid address range');
+    }
+    
+    return this.rangeToPrefixes({
+      start: IPv6Parser.toValue(IPv6Parser.parse(range.firstAddress)),
+      end: IPv6Parser.toValue(IPv6Parser.parse(range.lastAddress))
+    });
+  }
+
+  /** First and last address spanned by a prefix list, and whether the prefixes leave gaps. */
+  static getPrefixListRange(prefixes: string[]): PrefixListRange | null {
+    const ranges = this.mergeRanges(this.toRanges(prefixes));
+    
+    if (ranges.length === 0) return null;
+    
+    const first = ranges[0].start;
+    const last = ranges[ranges.length - 1].end;
+    
+    return {
+      firstAddress: IPv6Parser.format(first),
+      lastAddress: IPv6Parser.format(last),
+      size: first.distanceTo(last) + 1n,
+      coveredAddresses: ranges.reduce((sum, range) => sum + range.start.distanceTo(range.end) + 1n, 0n),
+      isContiguous: ranges.length === 1
+    };
+  }
+
+  /** Address ranges of the valid prefixes, in input order; invalid entries are skipped. */
+  static toRanges(prefixes: string[]): IPv6Range[] {
+    return prefixes
       .map(prefix => IPv6Parser.parse(prefix))
       .filter(parsed => parsed.isValid)
-      .sort((a, b) => a.expanded.localeCompare(b.expanded));
+      .map(parsed => IPv6Parser.getAddressBounds(parsed));
+  }
+
+  /** Sorts ranges and joins any that overlap or touch. */
+  static mergeRanges(ranges: IPv6Range[]): IPv6Range[] {
+    const sorted = [...ranges].sort((a, b) => a.start.compare(b.start));
+    const merged: IPv6Range[] = [];
     
-    if (networks.length === 0) return [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && (last.end.equals(IPv6Value.MAX) || range.start.compare(last.end.next()) <= 0)) {
+        last.end = IPv6Value.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
     
-    const summarized: string[] = [];
-    let currentBlock = networks[0];
+    return merged;
+  }
+
+  /** Decomposes an inclusive range into the fewest aligned CIDR blocks. */
+  static rangeToPrefixes(range: IPv6Range): string[] {
+    const prefixes: string[] = [];
+    let start = range.start;
     
-    for (let i = 1; i < networks.length; i++) {
-      const next = networks[i];
+    for (;;) {
+      const remaining = start.distanceTo(range.end) + 1n;
+      let hostBits = start.trailingZeroBits();
+      while (hostBits > 0 && (1n << BigInt(hostBits)) > remaining) {
+        hostBits--;
+      }
       
-      // Try to find common prefix
-      const commonPrefixLength = this.findCommonPrefixLength(
-        currentBlock.expanded, 
-        next.expanded
-      );
+      prefixes.push(`${IPv6Parser.format(start)}/${128 - hostBits}`);
       
-      // If networks are adjacent and can be summarized
-      if (commonPrefixLength >= Math.min(currentBlock.prefixLength, next.prefixLength) - 1) {
-        // Merge networks
-        const mergedPrefixLength = Math.min(commonPrefixLength, currentBlock.prefixLength - 1);
-        const networkHextets = this.getNetworkHextets(currentBlock.expanded, mergedPrefixLength);
-        
-        currentBlock = {
-          ...currentBlock,
-          networkAddress: `${this.hextetsToAddress(networkHextets)}/${mergedPrefixLength}`,
-          prefixLength: mergedPrefixLength
-        };
-      } else {
-        summarized.push(currentBlock.networkAddress);
-        currentBlock = next;
-      }
+      const blockEnd = start.fillHostBits(128 - hostBits);
+      if (blockEnd.compare(range.end) >= 0) break;
+      start = blockEnd.next();
     }
     
-    summarized.push(currentBlock.networkAddress);
-    return summarized;
+    return prefixes;
   }
   
-  private static parseHextets(expanded: string): number[] {
-    return expanded.split(':').map(hex => parseInt(hex, 16));
+  private static resolveBase(prefix: string, targetPrefixLength: number, options: AllocationOptions = {}): ResolvedBase {
+    const parsed = IPv6Parser.parse(prefix);
+    
+    if (!parsed.isValid) {
+      throw new Error('Invalid IPv6 prefix');
+    }
+    
+    if (targetPrefixLength <= parsed.prefixLength) {
+      throw new Error('Target prefix length must be longer than current prefix');
+    }
+    
+    if (targetPrefixLength > 128) {
+      throw new Error('Target prefix length cannot exceed 128');
+    }
+    
+    const subnetBits = targetPrefixLength - parsed.prefixLength;
+    const growthBits = options.growthBits ?? 0;
+    if (!Number.isInteger(growthBits) || growthBits < 0 || growthBits > subnetBits) {
+      throw new RangeError(`Growth reserve must be between 0 and ${subnetBits} bits`);
+    }
+    
+    return {
+      base: IPv6Parser.toValue(parsed).mask(parsed.prefixLength),
+      prefixLength: parsed.prefixLength,
+      totalSubnets: 1n << BigInt(subnetBits - growthBits),
+      strategy: options.strategy ?? AllocationStrategy.Rightmost,
+      growthBits
+    };
   }
-  
-  private static calculateSubnetAddress(
-    baseHextets: number[], 
-    basePrefixLength: number, 
-    targetPrefixLength: number, 
-    subnetIndex: number
-  ): number[] {
-    const result = [...baseHextets];
-    const subnetBits = targetPrefixLength - basePrefixLength;
-    
-    // Calculate which hextet to modify and how
-    const totalBitsFromStart = basePrefixLength;
-    const hextetIndex = Math.floor(totalBitsFromStart / 16);
-    const bitsInHextet = totalBitsFromStart % 16;
-    
-    // Distribute subnet bits across hextets
-    let remainingSubnetBits = subnetBits;
-    let currentIndex = subnetIndex;
-    let currentHextetIndex = hextetIndex;
-    
-    while (remainingSubnetBits > 0 && currentHextetIndex < 8) {
-      const availableBitsInHextet = 16 - (currentHextetIndex === hextetIndex ? bitsInHextet : 0);
-      const bitsToUse = Math.min(remainingSubnetBits, availableBitsInHextet);
-      
-      const shift = availableBitsInHextet - bitsToUse;
-      const mask = ((1 << bitsToUse) - 1) << shift;
-      const subnetPart = (currentIndex >> (remainingSubnetBits - bitsToUse)) & ((1 << bitsToUse) - 1);
-      
-      result[currentHextetIndex] = (result[currentHextetIndex] & ~mask) | (subnetPart << shift);
-      
-      remainingSubnetBits -= bitsToUse;
-      currentHextetIndex++;
+
+  /**
+   * Slot bit set by each bit of the allocation counter (bit 0 = least significant slot bit).
+   * Rightmost counts up, leftmost is the bit-reversed count and centermost starts at
+   * the middle bit and works outwards, as in RFC 3531.
+   */
+  private static getBitOrder(bits: number, strategy: AllocationStrategy): number[] {
+    switch (strategy) {
+      case AllocationStrategy.Leftmost:
+        return Array.from({ length: bits }, (_, bit) => bits - 1 - bit);
+      case AllocationStrategy.Centermost: {
+        // Positions counted from the most significant bit of the field
+        const center = Math.floor((bits - 1) / 2);
+        const fromLeft = bits > 0 ? [center] : [];
+        for (let distance = 1; fromLeft.length < bits; distance++) {
+          if (center - distance >= 0) fromLeft.push(center - distance);
+          if (center + distance < bits) fromLeft.push(center + distance);
+        }
+        return fromLeft.map(position => bits - 1 - position);
+      }
+      default:
+        return Array.from({ length: bits }, (_, bit) => bit);
     }
+  }
+
+  private static getSlot(index: bigint, order: number[]): bigint {
+    return order.reduce((slot, position, bit) =>
+      (index >> BigInt(bit)) & 1n ? slot | (1n << BigInt(position)) : slot, 0n);
+  }
+
+  /**
+   * Shortest prefix each subnet could grow to without swallowing another of the
+   * first allocatedCount allocations.
+   */
+  private static withMaxGrowth(
+    subnets: SubnetInfo[],
+    resolved: ResolvedBase,
+    targetPrefixLength: number,
+    allocatedCount: bigint
+  ): SubnetInfo[] {
+    const slotBits = targetPrefixLength - resolved.prefixLength - resolved.growthBits;
+    const order = this.getBitOrder(slotBits, resolved.strategy);
     
-    return result;
+    return subnets.map(subnet => {
+      // Growing to prefixLength + depth fixes the counter bits feeding the top depth slot bits
+      let fixedBits = 0n;
+      for (let depth = 0; depth <= slotBits; depth++) {
+        if (depth > 0) {
+          fixedBits |= 1n << BigInt(order.indexOf(slotBits - depth));
+        }
+        if (!this.hasAllocatedSibling(subnet.index, fixedBits, slotBits, allocatedCount)) {
+          return { ...subnet, maxGrowthPrefixLength: resolved.prefixLength + depth };
+        }
+      }
+      return subnet;
+    });
   }
-  
-  private static getSubnetRange(hextets: number[], prefixLength: number): { first: string, last: string } {
-    const firstHextets = [...hextets];
-    const lastHextets = [...hextets];
+
+  /** True when another allocation below allocatedCount agrees with index on every fixed counter bit. */
+  private static hasAllocatedSibling(index: bigint, fixedBits: bigint, slotBits: number, allocatedCount: bigint): boolean {
+    // The smallest match clears the free bits; if that is index itself, the next sets its lowest free bit
+    if ((index & fixedBits) !== index) {
+      return true;
+    }
     
-    // Zero out host bits for first address
-    const hostBits = 128 - prefixLength;
-    const fullHextets = Math.floor(prefixLength / 16);
-    const remainingBits = prefixLength % 16;
-    
-    // Set host bits for last address
-    for (let i = fullHextets; i < 8; i++) {
-      if (i === fullHextets && remainingBits > 0) {
-        const hostMask = (1 << (16 - remainingBits)) - 1;
-        firstHextets[i] = firstHextets[i] & ~hostMask;
-        lastHextets[i] = lastHextets[i] | hostMask;
-      } else {
-        firstHextets[i] = 0;
-        lastHextets[i] = 0xffff;
+    for (let bit = 0; bit < slotBits; bit++) {
+      if (((fixedBits >> BigInt(bit)) & 1n) === 0n) {
+        return (index | (1n << BigInt(bit))) < allocatedCount;
       }
     }
     
+    return false;
+  }
+
+  private static buildSubnet(resolved: ResolvedBase, targetPrefixLength: number, index: bigint): SubnetInfo {
+    const { base, prefixLength, strategy, growthBits } = resolved;
+    const slotBits = targetPrefixLength - prefixLength - growthBits;
+    const slot = this.getSlot(index, this.getBitOrder(slotBits, strategy));
+    const network = base.add((slot << BigInt(growthBits)) * IPv6Value.blockSize(targetPrefixLength));
+    const { first, last } = this.getSubnetRange(network, targetPrefixLength);
+    
     return {
-      first: this.hextetsToAddress(firstHextets),
-      last: this.hextetsToAddress(lastHextets)
+      index,
+      network: `${network.toExpanded()}/${targetPrefixLength}`,
+      firstAddress: first,
+      lastAddress: last,
+      broadcastAddress: last, // IPv6 doesn't have broadcast, using last address
+      totalHosts: this.calculateHostCount(targetPrefixLength)
     };
   }
   
-  private static hextetsToAddress(hextets: number[]): string {
-    return hextets.map(h => h.toString(16).padStart(4, '0')).join(':');
+  private static getSubnetRange(network: IPv6Value, prefixLength: number): { first: string, last: string } {
+    return {
+      first: network.mask(prefixLength).toExpanded(),
+      last: network.fillHostBits(prefixLength).toExpanded()
+    };
   }
   
   private static calculateHostCount(prefixLength: number): string {
@@ -166,52 +399,4 @@ export class IPv6Subnetting {
     }
     return Math.pow(2, hostBits).toLocaleString();
   }
-  
-  private static findCommonPrefixLength(addr1: string, addr2: string): number {
-    const hextets1 = this.parseHextets(addr1);
-    const hextets2 = this.parseHextets(addr2);
-    
-    let commonBits = 0;
-    
-    for (let i = 0; i < 8; i++) {
-      const xor = hextets1[i] ^ hextets2[i];
-      if (xor === 0) {
-        commonBits += 16;
-      } else {
-        // Count leading zeros in XOR result
-        let temp = xor;
-        let leadingZeros = 0;
-        for (let bit = 15; bit >= 0; bit--) {
-          if ((temp & (1 << bit)) === 0) {
-            leadingZeros++;
-          } else {
-            break;
-          }
-        }
-        commonBits += leadingZeros;
-        break;
-      }
-    }
-    
-    return commonBits;
-  }
-  
-  private static getNetworkHextets(expanded: string, prefixLength: number): number[] {
-    const hextets = this.parseHextets(expanded);
-    const result = [...hextets];
-    
-    const fullHextets = Math.floor(prefixLength / 16);
-    const remainingBits = prefixLength % 16;
-    
-    for (let i = fullHextets; i < 8; i++) {
-      if (i === fullHextets && remainingBits > 0) {
-        const mask = (0xffff << (16 - remainingBits)) & 0xffff;
-        result[i] = result[i] & mask;
-      } else {
-        result[i] = 0;
-      }
-    }
-    
-    return result;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,188 @@
+import { EmbeddedIPv4Info, EmbeddedIPv4Kind, NAT64Extraction, TeredoInfo, TeredoOptions } from '../types/ipv6';
+import { IPv6Value } from './ipv6Value';
+
+const TEREDO_PREFIX = 0x2001;
+const SIX_TO_FOUR_PREFIX = 0x2002;
+const NAT64_WELL_KNOWN_PREFIX = IPv6Value.fromHextets([0x64, 0xff9b, 0, 0, 0, 0, 0, 0]);
+
+/** Prefix lengths allowed for IPv4-embedded IPv6 addresses by RFC 6052 section 2.2. */
+export const NAT64_PREFIX_LENGTHS = [32, 40, 48, 56, 64, 96];
+
+/** Decoding and synthesis of IPv6 transition-mechanism addresses. */
+export class IPv6Transition {
+  /** Parses a dotted-quad IPv4 address into its 32-bit value, or null when malformed. */
+  static parseIPv4(input: string): number | null {
+    const octets = input.trim().split('.');
+    if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) {
+      return null;
+    }
+    return octets.reduce((result, octet) => result * 256 + Number(octet), 0);
+  }
+
+  static formatIPv4(value: number): string {
+    return [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.');
+  }
+
+  static isTeredo(value: IPv6Value): boolean {
+    const hextets = value.toHextets();
+    return hextets[0] === TEREDO_PREFIX && hextets[1] === 0;
+  }
+
+  /** Extracts the server, flags and de-obfuscated client endpoint of a Teredo address. */
+  static decodeTeredo(value: IPv6Value): TeredoInfo | null {
+    if (!this.isTeredo(value)) {
+      return null;
+    }
+
+    const hextets = value.toHextets();
+    const flags = hextets[4];
+    return {
+      server: this.formatIPv4(hextets[2] * 0x10000 + hextets[3]),
+      clientAddress: this.formatIPv4((hextets[6] ^ 0xffff) * 0x10000 + (hextets[7] ^ 0xffff)),
+      clientPort: hextets[5] ^ 0xffff,
+      flags,
+      isCone: (flags & 0x8000) !== 0,
+      // RFC 5991 layout CRAAAAUG AAAAAAAA: twelve random A bits around the U/G bits
+      randomBits: (((flags >> 10) & 0xf) << 8) | (flags & 0xff)
+    };
+  }
+
+  static is6to4(value: IPv6Value): boolean {
+    return value.toHextets()[0] === SIX_TO_FOUR_PREFIX;
+  }
+
+  /**
+   * ISATAP interface identifier [0|2]00:5efe:a.b.c.d (RFC 5214): either U/L bit value, but
+   * never the individual/group bit, so 0100:5efe and 0300:5efe do not match.
+   */
+  static isISATAP(value: IPv6Value): boolean {
+    const hextets = value.toHextets();
+    return (hextets[4] === 0x0000 || hextets[4] === 0x0200) && hextets[5] === 0x5efe;
+  }
+
+  /** Every IPv4 address carried by a 6to4, ISATAP or well-known NAT64 address. */
+  static getEmbeddedIPv4(value: IPv6Value): EmbeddedIPv4Info[] {
+    const hextets = value.toHextets();
+    const embedded: EmbeddedIPv4Info[] = [];
+
+    if (this.is6to4(value)) {
+      embedded.push({
+        kind: EmbeddedIPv4Kind.SixToFour,
+        ipv4: this.formatIPv4(hextets[1] * 0x10000 + hextets[2]),
+        prefix: this.formatPrefix(value, 48)
+      });
+    }
+    if (this.isISATAP(value)) {
+      embedded.push({
+        kind: EmbeddedIPv4Kind.ISATAP,
+        ipv4: this.formatIPv4(hextets[6] * 0x10000 + hextets[7]),
+        prefix: this.formatPrefix(value, 64)
+      });
+    }
+    if (value.mask(96).equals(NAT64_WELL_KNOWN_PREFIX)) {
+      embedded.push({
+        kind: EmbeddedIPv4Kind.NAT64,
+        ipv4: this.extractNAT64(value, 96).ipv4,
+        prefix: '64:ff9b::/96'
+      });
+    }
+
+    return embedded;
+  }
+
+  /**
+   * Embeds an IPv4 address under a NAT64 prefix (RFC 6052 section 2.2). Bits 64-71 are
+   * the reserved u-octet and stay zero, so shorter prefixes split the IPv4 around it.
+   */
+  static synthesizeNAT64(prefix: IPv6Value, prefixLength: number, ipv4: string): IPv6Value {
+    this.assertNAT64PrefixLength(prefixLength);
+    const address = this.parseIPv4(ipv4);
+    if (address === null) {
+      throw new RangeError('IPv4 address must be in dotted-quad notation');
+    }
+
+    const network = prefix.mask(prefixLength).toBigInt();
+    const ipv4Bits = BigInt(address);
+    if (prefixLength === 96) {
+      return IPv6Value.fromBigInt(network | ipv4Bits);
+    }
+
+    const bitsBeforeU = BigInt(64 - prefixLength);
+    const bitsAfterU = 32n - bitsBeforeU;
+    const high = ipv4Bits >> bitsAfterU;
+    const low = ipv4Bits & ((1n << bitsAfterU) - 1n);
+    return IPv6Value.fromBigInt(network | (high << 64n) | (low << (56n - bitsAfterU)));
+  }
+
+  /** Recovers the IPv4 address embedded by synthesizeNAT64 for the given prefix length. */
+  static extractNAT64(value: IPv6Value, prefixLength: number): NAT64Extraction {
+    this.assertNAT64PrefixLength(prefixLength);
+    const bits = value.toBigInt();
+
+    if (prefixLength === 96) {
+      return {
+        ipv4: this.formatIPv4(Number(bits & 0xffffffffn)),
+        isUOctetZero: ((bits >> 56n) & 0xffn) === 0n,
+        isSuffixZero: true
+      };
+    }
+
+    const bitsBeforeU = BigInt(64 - prefixLength);
+    const bitsAfterU = 32n - bitsBeforeU;
+    const high = (bits >> 64n) & ((1n << bitsBeforeU) - 1n);
+    const low = (bits >> (56n - bitsAfterU)) & ((1n << bitsAfterU) - 1n);
+    return {
+      ipv4: this.formatIPv4(Number((high << bitsAfterU) | low)),
+      isUOctetZero: ((bits >> 56n) & 0xffn) === 0n,
+      isSuffixZero: (bits & ((1n << (56n - bitsAfterU)) - 1n)) === 0n
+    };
+  }
+
+  /** Builds a Teredo address; throws a RangeError when any field is out of range. */
+  static encodeTeredo(options: TeredoOptions): IPv6Value {
+    const server = this.parseIPv4(options.server);
+    const client = this.parseIPv4(options.clientAddress);
+    const randomBits = options.randomBits ?? 0;
+
+    if (server === null) {
+      throw new RangeError('Teredo server must be a dotted-quad IPv4 address');
+    }
+    if (client === null) {
+      throw new RangeError('Client address must be a dotted-quad IPv4 address');
+    }
+    if (!Number.isInteger(options.clientPort) || options.clientPort < 0 || options.clientPort > 0xffff) {
+      throw new RangeError('Client port must be between 0 and 65535');
+    }
+    if (!Number.isInteger(randomBits) || randomBits < 0 || randomBits > 0xfff) {
+      throw new RangeError('Random bits must be a 12-bit value');
+    }
+
+    const flags = (options.isCone ? 0x8000 : 0) | ((randomBits >> 8) << 10) | (randomBits & 0xff);
+    return IPv6Value.fromHextets([
+      TEREDO_PREFIX,
+      0,
+      server >>> 16,
+      server & 0xffff,
+      flags,
+      options.clientPort ^ 0xffff,
+      (client >>> 16) ^ 0xffff,
+      (client & 0xffff) ^ 0xffff
+    ]);
+  }
+
+  // Hextet-aligned prefixes of /64 or shorter always end in the longest zero run, so
+  // dropping trailing zero hextets before the '::' yields the RFC 5952 form
+  private static formatPrefix(value: IPv6Value, prefixLength: number): string {
+    const hextets = value.mask(prefixLength).toHextets();
+    while (hextets.length > 0 && hextets[hextets.length - 1] === 0) {
+      hextets.pop();
+    }
+    return `${hextets.map(h => h.toString(16)).join(':')}::/${prefixLength}`;
+  }
+
+  private static assertNAT64PrefixLength(prefixLength: number): void {
+    if (!NAT64_PREFIX_LENGTHS.includes(prefixLength)) {
+      throw new RangeError(`NAT64 prefix length must be one of /${NAT64_PREFIX_LENGTHS.join(', /')}`);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { EUI64 } from './eui64';
+import { IPv6Value } from './ipv6Value';
+
+const ULA_LOCAL_PREFIX = 0xfdn;
+const GLOBAL_ID_BITS = 40n;
+const NTP_UNIX_OFFSET = 2208988800n;
+
+/** RFC 4193 Unique Local Address prefixes: generation and sanity checks. */
+export class ULAGenerator {
+  /**
+   * RFC 4193 section 3.2.2: SHA-1 over the 64-bit NTP timestamp followed by the EUI-64
+   * derived from a MAC address; the low 40 bits of the digest become the Global ID.
+   */
+  static async fromTimestamp(mac: string, date: Date = new Date()): Promise<IPv6Value> {
+    const octets = EUI64.parseMac(mac);
+    if (!octets) {
+      throw new RangeError('MAC address must use colon, dash or Cisco dotted notation');
+    }
+
+    const milliseconds = BigInt(date.getTime());
+    const seconds = milliseconds / 1000n + NTP_UNIX_OFFSET;
+    const fraction = ((milliseconds % 1000n) << 32n) / 1000n;
+    const key = new Uint8Array(16);
+    const view = new DataView(key.buffer);
+    view.setBigUint64(0, (seconds << 32n) | fraction);
+    view.setBigUint64(8, EUI64.toInterfaceId(octets));
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', key));
+    const globalId = digest.slice(-5).reduce((result, byte) => (result << 8n) | BigInt(byte), 0n);
+    return this.fromGlobalId(globalId);
+  }
+
+  /** ULA /48 with a Global ID drawn from the platform's cryptographic random source. */
+  static random(): IPv6Value {
+    const globalId = crypto.getRandomValues(new Uint8Array(5))
+      .reduce((result, byte) => (result << 8n) | BigInt(byte), 0n);
+    return this.fromGlobalId(globalId);
+  }
+
+  static fromGlobalId(globalId: bigint): IPv6Value {
+    return IPv6Value.fromBigInt(((ULA_LOCAL_PREFIX << GLOBAL_ID_BITS) | globalId) << 80n);
+  }
+
+  static getGlobalId(value: IPv6Value): bigint {
+    return (value.toBigInt() >> 80n) & ((1n << GLOBAL_ID_BITS) - 1n);
+  }
+
+  /**
+   * Global IDs that a person would type rather than draw at random: mostly zeros, at
+   * most two distinct hex digits, or a straight run such as 12:3456:789a.
+   */
+  static isLowEntropyGlobalId(globalId: bigint): boolean {
+    const nibbles = globalId.toString(16).padStart(10, '0').split('').map(digit => parseInt(digit, 16));
+    const zeroCount = nibbles.filter(nibble => nibble === 0).length;
+    const steps = nibbles.slice(1).map((nibble, index) => nibble - nibbles[index]);
+    const isRun = steps.every(step => step === 1) || steps.every(step => step === -1);
+
+    return zeroCount >= 6 || new Set(nibbles).size <= 2 || isRun;
+  }
+
+  /** Warnings for ULAs that break the RFC 4193 assignment rules. */
+  static getWarnings(value: IPv6Value, prefixLength: number): string[] {
+    const firstOctet = value.toBigInt() >> 120n;
+    const warnings: string[] = [];
+
+    if (firstOctet === 0xfcn && prefixLength >= 8) {
+      warnings.push('The L bit is 0: fc00::/8 is not defined for local assignment, locally assigned ULAs must use fd00::/8 (RFC 4193 section 3.1)');
+    }
+
+    if (firstOctet === ULA_LOCAL_PREFIX && prefixLength >= 48) {
+      const globalId = this.getGlobalId(value);
+      if (this.isLowEntropyGlobalId(globalId)) {
+        warnings.push(`Global ID 0x${globalId.toString(16).padStart(10, '0')} looks hand-picked; RFC 4193 requires a pseudo-random Global ID so that merged networks do not collide`);
+      }
+    }
+
+    return warnings;
+  }
+}